@@ -26,25 +26,23 @@ app.set('view engine', 'ejs');
 app.set('views', '../views'); // Use the package's default login view
 
 // Setup OAuth 2.1 endpoints
-const { pool } = setupOAuth(app, {
+const { store } = setupOAuth(app, {
   serverUrl: process.env.SERVER_URL || 'http://localhost:3456',
   database: process.env.DATABASE_URL || 'postgresql://localhost/mcp_oauth_example',
   clientId: process.env.OAUTH_CLIENT_ID || 'example-client-id',
   clientSecret: process.env.OAUTH_CLIENT_SECRET || 'example-client-secret',
   passwordHash: process.env.OAUTH_PASSWORD_HASH || '$2b$10$N9qo8uLOickgx2ZMRZoMyeIjZAgcfl7p92ldGxad68LJZdL17lhWy', // "password"
   sessionSecret: process.env.SESSION_SECRET || 'example-session-secret',
-  apiKey: process.env.API_KEY || 'example-api-key',
 });
 
 // Create auth middleware for protecting MCP endpoints
 const authMiddleware = createAuthMiddleware({
   serverUrl: process.env.SERVER_URL || 'http://localhost:3456',
-  database: pool,
+  database: store,
   clientId: process.env.OAUTH_CLIENT_ID || 'example-client-id',
   clientSecret: process.env.OAUTH_CLIENT_SECRET || 'example-client-secret',
   passwordHash: process.env.OAUTH_PASSWORD_HASH || '$2b$10$N9qo8uLOickgx2ZMRZoMyeIjZAgcfl7p92ldGxad68LJZdL17lhWy',
   sessionSecret: process.env.SESSION_SECRET || 'example-session-secret',
-  apiKey: process.env.API_KEY || 'example-api-key',
 });
 
 // Example MCP endpoint (protected by OAuth)
@@ -120,6 +118,8 @@ app.get('/docs', (_req: Request, res: Response) => {
     <li><code>POST /oauth/token</code></li>
     <li><code>POST /login</code></li>
     <li><code>POST /oauth/register</code></li>
+    <li><code>POST /oauth/introspect</code></li>
+    <li><code>POST /oauth/revoke</code></li>
     <li><code>POST /mcp</code> (protected)</li>
   </ul>
 
@@ -6,39 +6,78 @@
  */
 
 import type { Express, Request, Response } from 'express';
-import pg from 'pg';
 import type { OAuthConfig } from './types/index.js';
-import { createSessionMiddleware } from './middleware/session.js';
-import { loginRateLimiter, tokenRateLimiter, authorizeRateLimiter } from './middleware/rate-limit.js';
-import { initAuditLogging } from './utils/audit-log.js';
-import { createAuthorizeHandler } from './oauth/authorize.js';
+import { createSessionMiddleware, createSessionTrackingMiddleware } from './middleware/session.js';
+import { createRateLimiters } from './middleware/rate-limit.js';
+import { getPool, resolveStore } from './utils/db.js';
+import { createAuthorizeHandler, createConsentHandler } from './oauth/authorize.js';
 import { createTokenHandler } from './oauth/token.js';
-import { createLoginHandler } from './oauth/login.js';
-import { createRegisterHandler } from './oauth/register.js';
-
-const { Pool } = pg;
+import { createLoginHandler, createTwoFactorLoginHandler } from './oauth/login.js';
+import { createLogoutHandler } from './oauth/logout.js';
+import { createAccountSessionsHandler } from './oauth/account-sessions.js';
+import { createTwoFactorSetupHandler, createTwoFactorSetupFormHandler } from './oauth/two-factor-setup.js';
+import { createAdminHandler, createAdminActionHandler } from './oauth/admin.js';
+import { createAuditLogsHandler } from './oauth/audit-logs.js';
+import { createRegisterHandler, createClientConfigurationHandler } from './oauth/register.js';
+import { createIntrospectHandler } from './oauth/introspect.js';
+import { createRevokeHandler } from './oauth/revoke.js';
+import {
+  createDeviceAuthorizationHandler,
+  createDevicePageHandler,
+  createDeviceDecisionHandler,
+} from './oauth/device.js';
+import { DEVICE_CODE_GRANT_TYPE } from './oauth/device-codes.js';
+import { getDefaultResource } from './oauth/resources.js';
+import { ensureOwnerUser } from './oauth/users.js';
+import { getSigningKeyManager } from './oauth/signing-keys.js';
+import { scheduleAuthLogPruning } from './utils/audit-log.js';
+import { withAuditSinks } from './utils/audit-sinks.js';
+import { getLogger, setLogger } from './utils/logger.js';
 
 /**
  * Setup OAuth 2.1 endpoints on an Express app
  */
 export function setupOAuth(app: Express, config: OAuthConfig) {
-  // Create or use existing database pool
-  const pool = typeof config.database === 'string'
-    ? new Pool({ connectionString: config.database })
-    : config.database;
+  if (config.logger) {
+    setLogger(config.logger);
+  }
+
+  // Create or use existing storage backend (PostgreSQL pool by default),
+  // sending audit events to the configured sinks
+  const baseStore = resolveStore(config.database, config.tablePrefix);
+  const store = config.auditSinks ? withAuditSinks(baseStore, config.auditSinks) : baseStore;
+
+  // Create/upgrade tables, then sync the single-user 'owner' account
+  // with passwordHash
+  const ready = Promise.resolve(config.autoMigrate !== false && store.migrate ? store.migrate() : undefined)
+    .then(async () => {
+      if (config.passwordHash) {
+        await ensureOwnerUser(store, config.passwordHash);
+      }
+    })
+    .catch((error) => {
+      getLogger('setup').error('Database setup failed', { err: error });
+      throw error;
+    });
+  // Surfaced through the returned promise; don't crash on an unobserved rejection
+  ready.catch(() => {});
+
+  // Delete audit events past the retention period (once the tables exist)
+  ready.then(() => scheduleAuthLogPruning(store, config)).catch(() => {});
 
-  // Initialize audit logging (creates table if needed)
-  initAuditLogging(pool);
+  // Rate limiters, counting in the storage backend unless configured otherwise
+  const rateLimiters = createRateLimiters(config, store, ready);
 
   // Add session middleware
-  const sessionMiddleware = createSessionMiddleware(config, pool);
+  const sessionMiddleware = createSessionMiddleware(config, store);
   app.use(sessionMiddleware);
+  app.use(createSessionTrackingMiddleware(store));
 
   // OAuth 2.1 Discovery Endpoints
   app.get('/.well-known/oauth-protected-resource', (_req: Request, res: Response) => {
     const scopes = config.scopes || ['mcp:tools:*', 'mcp:resources:*', 'mcp:prompts:*'];
     res.json({
-      resource: config.serverUrl,
+      resource: getDefaultResource(config),
       authorization_servers: [config.serverUrl],
       bearer_methods_supported: ['header'],
       resource_documentation: `${config.serverUrl}/docs`,
@@ -53,65 +92,137 @@ export function setupOAuth(app: Express, config: OAuthConfig) {
       authorization_endpoint: `${config.serverUrl}/oauth/authorize`,
       token_endpoint: `${config.serverUrl}/oauth/token`,
       registration_endpoint: `${config.serverUrl}/oauth/register`,
+      device_authorization_endpoint: `${config.serverUrl}/oauth/device_authorization`,
+      introspection_endpoint: `${config.serverUrl}/oauth/introspect`,
+      introspection_endpoint_auth_methods_supported: ['client_secret_post', 'client_secret_basic'],
+      revocation_endpoint: `${config.serverUrl}/oauth/revoke`,
+      revocation_endpoint_auth_methods_supported: ['client_secret_post', 'client_secret_basic', 'none'],
       jwks_uri: `${config.serverUrl}/.well-known/jwks`,
       scopes_supported: scopes,
       response_types_supported: ['code'],
-      grant_types_supported: ['authorization_code', 'refresh_token'],
+      grant_types_supported: ['authorization_code', 'refresh_token', 'client_credentials', DEVICE_CODE_GRANT_TYPE],
       code_challenge_methods_supported: ['S256'],
       token_endpoint_auth_methods_supported: ['client_secret_post', 'client_secret_basic', 'none'],
       service_documentation: `${config.serverUrl}/docs`,
     });
   });
 
-  // OAuth 2.1 Authorization Endpoints (with rate limiting)
-  app.get('/oauth/authorize', authorizeRateLimiter, createAuthorizeHandler(config, pool));
-  app.post('/oauth/token', tokenRateLimiter, createTokenHandler(config, pool));
-  app.post('/login', loginRateLimiter, createLoginHandler(config, pool));
-  app.post('/oauth/register', createRegisterHandler(pool));
+  // JSON Web Key Set (public keys for verifying JWT access tokens)
+  app.get('/.well-known/jwks', async (_req: Request, res: Response) => {
+    const keys = config.accessTokenFormat === 'jwt'
+      ? await getSigningKeyManager(store, config).getPublicKeys()
+      : [];
+    res.set('Cache-Control', 'public, max-age=300').json({ keys });
+  });
 
-  return { pool, sessionMiddleware };
+  // OAuth 2.1 Authorization Endpoints (with rate limiting)
+  app.get('/oauth/authorize', rateLimiters.authorize, createAuthorizeHandler(config, store));
+  app.post('/oauth/authorize', rateLimiters.authorize, createConsentHandler(config, store));
+  app.post('/oauth/token', rateLimiters.token, rateLimiters.devicePoll, createTokenHandler(config, store));
+  app.post('/login', rateLimiters.login, createLoginHandler(config, store));
+  app.post('/login/two-factor', rateLimiters.twoFactor, createTwoFactorLoginHandler(config, store));
+  app.post('/logout', rateLimiters.logout, createLogoutHandler(config, store));
+  app.post('/oauth/register', rateLimiters.register, createRegisterHandler(config, store));
+  const clientConfigurationHandler = createClientConfigurationHandler(config, store);
+  app.get('/oauth/register/:client_id', rateLimiters.clientConfiguration, clientConfigurationHandler);
+  app.put('/oauth/register/:client_id', rateLimiters.clientConfiguration, clientConfigurationHandler);
+  app.delete('/oauth/register/:client_id', rateLimiters.clientConfiguration, clientConfigurationHandler);
+  app.post('/oauth/introspect', rateLimiters.introspect, createIntrospectHandler(config, store));
+  app.post('/oauth/revoke', rateLimiters.revoke, createRevokeHandler(config, store));
+
+  // Device authorization grant (RFC 8628): the user enters the device's code at /device
+  app.post('/oauth/device_authorization', rateLimiters.authorize, createDeviceAuthorizationHandler(config, store));
+  app.get('/device', rateLimiters.device, createDevicePageHandler(config, store));
+  app.post('/device', rateLimiters.device, createDeviceDecisionHandler(config, store));
+
+  // Session management for the logged-in user
+  const accountSessionsHandler = createAccountSessionsHandler(store);
+  app.get('/account/sessions', accountSessionsHandler);
+  app.delete('/account/sessions', accountSessionsHandler);
+  app.delete('/account/sessions/:id', accountSessionsHandler);
+
+  // TOTP enrollment (users who already enrolled are asked for codes either way)
+  if (config.twoFactor) {
+    app.get('/account/two-factor', createTwoFactorSetupHandler(config, store));
+    app.post('/account/two-factor', rateLimiters.twoFactor, createTwoFactorSetupFormHandler(config, store));
+  }
+
+  // Audit log API for the admin users (with the dashboard unless auditLog.api says otherwise)
+  if (config.auditLog?.api ?? config.admin) {
+    app.get('/admin/audit-logs', createAuditLogsHandler(config, store));
+  }
+
+  // Admin dashboard (clients, sessions, tokens, audit log)
+  if (config.admin) {
+    const adminHandler = createAdminHandler(config, store);
+    app.get('/admin', adminHandler);
+    app.get('/admin/:section', adminHandler);
+    app.post('/admin/:section/:id/:action', createAdminActionHandler(config, store));
+  }
+
+  // pool: the PostgreSQL pool, as returned before storage backends were pluggable
+  return { store, pool: getPool(config.database), sessionMiddleware, ready };
 }
 
-/**
- * Create auth middleware for protecting MCP endpoints
- */
-export function createAuthMiddleware(config: OAuthConfig) {
-  return function authMiddleware(req: Request, res: Response, next: () => void) {
-    const authHeader = req.headers.authorization;
-
-    const wwwAuthenticateHeader = [
-      `Bearer realm="${config.serverUrl}"`,
-      `resource_metadata="${config.serverUrl}/.well-known/oauth-protected-resource"`,
-      `scope="${(config.scopes || ['mcp:tools:*', 'mcp:resources:*']).join(' ')}"`,
-    ].join(', ');
-
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      return res
-        .status(401)
-        .set('WWW-Authenticate', wwwAuthenticateHeader)
-        .json({
-          error: 'unauthorized',
-          error_description: 'Bearer token required',
-        });
-    }
-
-    const token = authHeader.slice(7);
-    if (token !== config.apiKey) {
-      return res
-        .status(401)
-        .set('WWW-Authenticate', wwwAuthenticateHeader)
-        .json({
-          error: 'invalid_token',
-          error_description: 'Bearer token is invalid or expired',
-        });
-    }
-
-    next();
-  };
-}
+// Export auth middleware for protecting MCP endpoints
+export { createAuthMiddleware } from './middleware/auth.js';
+
+// Export scope helpers (for gating individual MCP tools)
+export { hasScope, hasScopes, scopeSatisfies } from './oauth/scopes.js';
 
 // Export rate limiters (for customization)
-export { loginRateLimiter, tokenRateLimiter, authorizeRateLimiter } from './middleware/rate-limit.js';
+export {
+  createRateLimiter,
+  loginRateLimiter,
+  tokenRateLimiter,
+  authorizeRateLimiter,
+  registerRateLimiter,
+  twoFactorRateLimiter,
+  devicePollRateLimiter,
+} from './middleware/rate-limit.js';
+
+// Export schema migrations (for running them as a deploy step)
+export { runMigrations } from './utils/migrations.js';
+
+// Export storage backends
+export { createPostgresStore } from './storage/postgres.js';
+export { createMemoryStore } from './storage/memory.js';
+
+// Export token management (e.g. cutting off a single client or user)
+export { listTokenFamilies, revokeTokenFamily, revokeClientTokens, revokeUserTokens } from './oauth/tokens.js';
+
+// Export user management
+export {
+  createUser,
+  getUserById,
+  listUsers,
+  setUserPassword,
+  deleteUser,
+} from './oauth/users.js';
+
+// Export client management (e.g. removing a client from an admin script)
+export { getClient, listClients, updateClient, deleteClient, rotateClientSecret } from './oauth/clients.js';
+
+// Export two-factor management (e.g. resetting a user who lost their device)
+export { hasTotp, disableTotp } from './oauth/two-factor.js';
+
+// Export session management (e.g. signing a user out everywhere)
+export { listUserSessions, revokeSession, revokeUserSessions } from './oauth/sessions.js';
+
+// Export login lockout management (e.g. unlocking an account from an admin script)
+export { unlockLogin } from './oauth/lockout.js';
+
+// Export audit log access (e.g. for security reviews)
+export { queryAuthLogs, pruneAuthLogs } from './utils/audit-log.js';
+
+// Export audit sinks (for OAuthConfig.auditSinks)
+export { createDatabaseAuditSink, createNdjsonAuditSink, createWebhookAuditSink } from './utils/audit-sinks.js';
+
+// Export loggers (for OAuthConfig.logger)
+export { createJsonLogger, fromPino } from './utils/logger.js';
+
+// Export consent management
+export { getGrant, revokeGrant } from './oauth/grants.js';
 
 // Export types
 export * from './types/index.js';
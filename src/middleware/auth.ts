@@ -0,0 +1,164 @@
+/**
+ * Bearer Token Auth Middleware
+ *
+ * Protects MCP endpoints:
+ * 1. Require an Authorization: Bearer header
+ * 2. Validate the token (store lookup, or JWT verification plus a revocation
+ *    check; offline only with jwksUri)
+ * 3. Reject tokens issued for another resource (RFC 8707 audience)
+ * 4. Enforce required scopes (403 insufficient_scope); granted scopes outside
+ *    OAuthConfig.scopes don't count
+ * 5. Attach the validated token to req.auth
+ */
+
+import type { Request, Response, NextFunction } from 'express';
+import type { OAuthConfig, AuthInfo, AuthMiddlewareOptions } from '../types/index.js';
+import { resolveStore } from '../utils/db.js';
+import { getAccessToken } from '../oauth/tokens.js';
+import { isJwt, decodeJwtHeader, verifyJwt } from '../oauth/jwt.js';
+import type { AccessTokenClaims } from '../oauth/jwt.js';
+import { getSigningKeyManager, createRemoteJwks } from '../oauth/signing-keys.js';
+import type { PublicKeySource } from '../oauth/signing-keys.js';
+import { parseScope, hasScopes, filterSupportedScopes } from '../oauth/scopes.js';
+import { getDefaultResource, normalizeResource } from '../oauth/resources.js';
+import { DEFAULT_ACCESS_TOKEN_MAX_AGE } from '../oauth/tokens.js';
+import { getLogger, setLogger } from '../utils/logger.js';
+
+// Revocations can't reach servers that verify JWTs offline, so their lifetime is the exposure
+const MAX_OFFLINE_JWT_MAX_AGE = 15 * 60 * 1000; // 15 minutes
+
+const log = getLogger('auth');
+
+/**
+ * Verify a JWT access token offline
+ * Refetches the key set once if the token was signed by an unknown key
+ */
+async function verifyJwtAccessToken(
+  token: string,
+  keySource: PublicKeySource,
+  config: OAuthConfig,
+  resource: string
+): Promise<AccessTokenClaims | null> {
+  const expected = { issuer: config.serverUrl, audience: resource };
+  const kid = decodeJwtHeader(token)?.kid;
+
+  let keys = await keySource.getPublicKeys();
+  if (kid && !keys.some((key) => key.kid === kid)) {
+    keys = await keySource.getPublicKeys(true);
+  }
+
+  return verifyJwt(token, keys, expected);
+}
+
+/**
+ * Create auth middleware for protecting MCP endpoints
+ */
+export function createAuthMiddleware(config: OAuthConfig, options: AuthMiddlewareOptions = {}) {
+  if (config.logger) {
+    setLogger(config.logger);
+  }
+
+  const store = resolveStore(config.database, config.tablePrefix);
+  const keySource: PublicKeySource = config.jwksUri
+    ? createRemoteJwks(config.jwksUri)
+    : getSigningKeyManager(store, config);
+  const requiredScopes = options.requiredScopes || [];
+  const supportedScopes = config.scopes || ['mcp:tools:*', 'mcp:resources:*', 'mcp:prompts:*'];
+
+  const accessTokenMaxAge = config.accessTokenMaxAge || DEFAULT_ACCESS_TOKEN_MAX_AGE;
+  if (config.jwksUri && accessTokenMaxAge > MAX_OFFLINE_JWT_MAX_AGE) {
+    log.warn('Revoked JWTs stay valid here until they expire; set accessTokenMaxAge to 15 minutes or less', {
+      accessTokenMaxAge,
+    });
+  }
+  const resource = (options.resource && normalizeResource(options.resource)) || getDefaultResource(config);
+
+  return async function authMiddleware(req: Request, res: Response, next: NextFunction) {
+    const authHeader = req.headers.authorization;
+
+    const wwwAuthenticateHeader = [
+      `Bearer realm="${config.serverUrl}"`,
+      `resource_metadata="${config.serverUrl}/.well-known/oauth-protected-resource"`,
+      `scope="${(config.scopes || ['mcp:tools:*', 'mcp:resources:*']).join(' ')}"`,
+    ].join(', ');
+
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return res
+        .status(401)
+        .set('WWW-Authenticate', wwwAuthenticateHeader)
+        .json({
+          error: 'unauthorized',
+          error_description: 'Bearer token required',
+        });
+    }
+
+    const token = authHeader.slice(7);
+    let auth: AuthInfo | null = null;
+
+    if (config.accessTokenFormat === 'jwt' && isJwt(token)) {
+      // Tokens for other resources fail the audience check
+      const claims = await verifyJwtAccessToken(token, keySource, config, resource);
+
+      // With the shared store, revoked tokens (and revoked families) are rejected right away;
+      // with jwksUri there is no store to ask, so they stay valid until they expire
+      const revoked = claims && !config.jwksUri && !(await getAccessToken(store, token));
+      if (claims && !revoked) {
+        auth = {
+          clientId: claims.client_id,
+          // sub is the user, or the client itself when no user was involved
+          userId: claims.sub !== claims.client_id ? claims.sub : undefined,
+          scope: claims.scope,
+          scopes: filterSupportedScopes(parseScope(claims.scope), supportedScopes),
+          resource,
+          createdAt: claims.iat * 1000,
+          expiresAt: claims.exp * 1000,
+          jti: claims.jti,
+        };
+      }
+    } else {
+      const storedToken = await getAccessToken(store, token);
+      // Tokens issued before resource indicators count as issued for the default resource
+      const tokenResource = storedToken && (storedToken.resource || getDefaultResource(config));
+      if (storedToken && tokenResource === resource) {
+        auth = {
+          ...storedToken,
+          scopes: filterSupportedScopes(parseScope(storedToken.scope), supportedScopes),
+          resource,
+        };
+      }
+    }
+
+    if (!auth) {
+      return res
+        .status(401)
+        .set('WWW-Authenticate', wwwAuthenticateHeader)
+        .json({
+          error: 'invalid_token',
+          error_description: 'Bearer token is invalid or expired',
+        });
+    }
+
+    // RFC 6750 Section 3.1: valid token, but not enough privileges
+    if (!hasScopes(auth.scopes, requiredScopes)) {
+      return res
+        .status(403)
+        .set(
+          'WWW-Authenticate',
+          [
+            `Bearer realm="${config.serverUrl}"`,
+            'error="insufficient_scope"',
+            `scope="${requiredScopes.join(' ')}"`,
+            `resource_metadata="${config.serverUrl}/.well-known/oauth-protected-resource"`,
+          ].join(', ')
+        )
+        .json({
+          error: 'insufficient_scope',
+          error_description: `Required scope: ${requiredScopes.join(' ')}`,
+        });
+    }
+
+    // Expose the token record (client_id, user, scopes, expiry) to MCP handlers
+    req.auth = auth;
+    next();
+  };
+}
@@ -0,0 +1,104 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it } from 'vitest';
+import express from 'express';
+import type { RequestHandler } from 'express';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import { createRateLimiter } from './rate-limit.js';
+import { setupOAuth } from '../index.js';
+import { createMemoryStore } from '../storage/memory.js';
+import { DEVICE_CODE_GRANT_TYPE } from '../oauth/device-codes.js';
+
+describe('rate limiters', () => {
+  let server: Server | undefined;
+
+  afterEach(() => {
+    server?.close();
+  });
+
+  function listen(...limiters: RequestHandler[]): string {
+    const app = express();
+    app.use(express.urlencoded({ extended: false }));
+    app.post('/', ...limiters, (_req, res) => {
+      res.json({ ok: true });
+    });
+    server = app.listen(0);
+    return `http://localhost:${(server.address() as AddressInfo).port}`;
+  }
+
+  it('waits for the store to be ready before counting', async () => {
+    const store = createMemoryStore();
+    let migrated = false;
+    const incrementRateLimit = store.incrementRateLimit.bind(store);
+    store.incrementRateLimit = async (key, windowMs) => {
+      if (!migrated) {
+        throw new Error('relation "rate_limits" does not exist');
+      }
+      return incrementRateLimit(key, windowMs);
+    };
+
+    let markReady = () => {};
+    const ready = new Promise<void>((resolve) => {
+      markReady = () => {
+        migrated = true;
+        resolve();
+      };
+    });
+    const url = listen(createRateLimiter('login', { max: 1 }, store, ready));
+
+    const first = fetch(url, { method: 'POST' });
+    setTimeout(markReady, 50);
+    expect((await first).status).toBe(200);
+    expect((await fetch(url, { method: 'POST' })).status).toBe(429);
+  });
+
+  it('limits device code polls separately from other token requests', async () => {
+    const url = listen(createRateLimiter('token', { max: 1 }), createRateLimiter('devicePoll', { max: 2 }));
+    const poll = () => fetch(url, { method: 'POST', body: new URLSearchParams({ grant_type: DEVICE_CODE_GRANT_TYPE }) });
+
+    expect((await poll()).status).toBe(200);
+    expect((await poll()).status).toBe(200);
+    expect((await poll()).status).toBe(429);
+
+    const refresh = () => fetch(url, { method: 'POST', body: new URLSearchParams({ grant_type: 'refresh_token' }) });
+    expect((await refresh()).status).toBe(200);
+    expect((await refresh()).status).toBe(429);
+  });
+});
+
+describe('setupOAuth rate limits', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    const app = express();
+    app.use(express.json());
+    app.use(express.urlencoded({ extended: false }));
+
+    server = app.listen(0);
+    baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+
+    const { ready } = setupOAuth(app, {
+      serverUrl: baseUrl,
+      database: createMemoryStore(),
+      clientId: 'static-client',
+      clientSecret: 'static-secret',
+      sessionSecret: 'test-session-secret-with-enough-length',
+      rateLimit: { introspect: { max: 1 }, revoke: { max: 1 }, clientConfiguration: { max: 1 }, logout: { max: 1 } },
+    });
+    await ready;
+  });
+
+  afterAll(() => {
+    server.close();
+  });
+
+  it.each([
+    ['POST', '/oauth/introspect'],
+    ['POST', '/oauth/revoke'],
+    ['GET', '/oauth/register/some-client'],
+    ['POST', '/logout'],
+  ])('limits %s %s', async (method, path) => {
+    expect((await fetch(`${baseUrl}${path}`, { method })).status).not.toBe(429);
+    expect((await fetch(`${baseUrl}${path}`, { method })).status).toBe(429);
+  });
+});
@@ -2,54 +2,219 @@
  * Rate Limiting Middleware
  *
  * Protects against brute force attacks on authentication endpoints
+ *
+ * setupOAuth creates the limiters from OAuthConfig.rateLimit and counts
+ * requests in the storage backend, so limits survive restarts and add up
+ * across instances. The exported limiters below use the defaults and
+ * count in process memory.
+ */
+
+import type { Request, RequestHandler } from 'express';
+import rateLimit, { ipKeyGenerator } from 'express-rate-limit';
+import type { Options, Store } from 'express-rate-limit';
+import { readClientCredentials } from '../oauth/client-auth.js';
+import { DEVICE_CODE_GRANT_TYPE } from '../oauth/device-codes.js';
+import type { OAuthConfig, OAuthStore, RateLimitKey, RateLimitName, RateLimitRule } from '../types/index.js';
+
+const DEFAULT_RATE_LIMITS: Record<RateLimitName, Required<RateLimitRule> & { subject: string }> = {
+  login: { windowMs: 15 * 60 * 1000, max: 5, key: 'ip', subject: 'login attempts' },
+  token: { windowMs: 15 * 60 * 1000, max: 10, key: 'ip', subject: 'token requests' },
+  authorize: { windowMs: 15 * 60 * 1000, max: 20, key: 'ip', subject: 'authorization requests' },
+  register: { windowMs: 60 * 60 * 1000, max: 10, key: 'ip', subject: 'client registrations' },
+  twoFactor: { windowMs: 15 * 60 * 1000, max: 10, key: 'ip', subject: 'two-factor attempts' },
+  device: { windowMs: 15 * 60 * 1000, max: 20, key: 'ip', subject: 'device code attempts' },
+  // 12 polls a minute per device at the default interval, with room for a few devices per address
+  devicePoll: { windowMs: 60 * 1000, max: 30, key: 'ip+client_id', subject: 'device code polls' },
+  // Resource servers introspect on every request they serve
+  introspect: { windowMs: 60 * 1000, max: 300, key: 'ip', subject: 'introspection requests' },
+  revoke: { windowMs: 15 * 60 * 1000, max: 30, key: 'ip', subject: 'revocation requests' },
+  clientConfiguration: { windowMs: 15 * 60 * 1000, max: 30, key: 'ip', subject: 'client configuration requests' },
+  logout: { windowMs: 15 * 60 * 1000, max: 20, key: 'ip', subject: 'logout requests' },
+};
+
+/**
+ * Describe a window for the error message, e.g. '15 minutes' or 'an hour'
+ */
+function describeWindow(windowMs: number): string {
+  const units: [number, string, string][] = [
+    [60 * 60 * 1000, 'an hour', 'hours'],
+    [60 * 1000, 'a minute', 'minutes'],
+    [1000, 'a second', 'seconds'],
+  ];
+
+  for (const [size, one, many] of units) {
+    if (windowMs >= size && windowMs % size === 0) {
+      return windowMs === size ? one : `${windowMs / size} ${many}`;
+    }
+  }
+  return `${Math.ceil(windowMs / 1000)} seconds`;
+}
+
+/**
+ * Key a request is counted under
+ * IPv6 addresses are grouped by /56 subnet, like the express-rate-limit default
+ */
+function rateLimitKey(req: Request, key: RateLimitKey): string {
+  const ip = ipKeyGenerator(req.ip || req.socket.remoteAddress || '');
+
+  if (key === 'ip+client_id') {
+    const credentials = readClientCredentials(req);
+    const clientId = ('clientId' in credentials ? credentials.clientId : undefined) || req.query.client_id;
+    return `${ip}|${typeof clientId === 'string' ? clientId : ''}`;
+  }
+
+  if (key === 'ip+username') {
+    const username = req.body?.username;
+    return `${ip}|${typeof username === 'string' ? username.trim().toLowerCase() : ''}`;
+  }
+
+  return ip;
+}
+
+/**
+ * Whether a limiter counts a token request: device code polls have their own
+ * limiter, in line with slow_down, and don't use up the token limit
+ */
+function isCounted(name: RateLimitName, req: Request): boolean {
+  const isDevicePoll = req.body?.grant_type === DEVICE_CODE_GRANT_TYPE;
+  if (name === 'token') {
+    return !isDevicePoll;
+  }
+  return name === 'devicePoll' ? isDevicePoll : true;
+}
+
+/**
+ * express-rate-limit store that counts in the storage backend
+ * Waits for `ready` (the migrations creating rate_limits) before using it
  */
+function createRateLimitStore(store: OAuthStore, prefix: string, ready: Promise<unknown>): Store {
+  let windowMs = 60 * 1000;
+  let cleanup: NodeJS.Timeout | undefined;
 
-import rateLimit from 'express-rate-limit';
+  return {
+    prefix,
+    localKeys: false,
+    init(options: Options) {
+      windowMs = options.windowMs;
+      // Expired counters are only ever overwritten, so clear them out now and then
+      cleanup = setInterval(() => {
+        ready.then(() => store.deleteExpiredRateLimits()).catch(() => {});
+      }, windowMs);
+      cleanup.unref();
+    },
+    async increment(key) {
+      await ready;
+      const hit = await store.incrementRateLimit(`${prefix}${key}`, windowMs);
+      return { totalHits: hit.hits, resetTime: new Date(hit.resetAt) };
+    },
+    async decrement(key) {
+      await ready;
+      await store.decrementRateLimit(`${prefix}${key}`);
+    },
+    async resetKey(key) {
+      await ready;
+      await store.resetRateLimit(`${prefix}${key}`);
+    },
+    shutdown() {
+      clearInterval(cleanup);
+    },
+  };
+}
+
+/**
+ * Create a rate limiter for an endpoint
+ * Counts in memory unless a storage backend is given (used once `ready` resolves)
+ */
+export function createRateLimiter(
+  name: RateLimitName,
+  rule: RateLimitRule = {},
+  store?: OAuthStore,
+  ready: Promise<unknown> = Promise.resolve()
+): RequestHandler {
+  const defaults = DEFAULT_RATE_LIMITS[name];
+  const windowMs = rule.windowMs || defaults.windowMs;
+  const key = rule.key || defaults.key;
+
+  return rateLimit({
+    windowMs,
+    limit: rule.max || defaults.max,
+    message: {
+      error: 'too_many_requests',
+      error_description: `Too many ${defaults.subject}. Please try again in ${describeWindow(windowMs)}.`,
+    },
+    standardHeaders: true, // Return rate limit info in headers
+    legacyHeaders: false, // Disable X-RateLimit-* headers
+    keyGenerator: (req) => rateLimitKey(req, key),
+    skip: (req) => !isCounted(name, req),
+    store: store ? createRateLimitStore(store, `rl:${name}:`, ready) : undefined,
+  });
+}
+
+/**
+ * Create the rate limiters for setupOAuth from OAuthConfig.rateLimit
+ * A disabled limiter lets every request through; counting in the storage
+ * backend starts once `ready` (its migrations) resolves
+ */
+export function createRateLimiters(
+  config: OAuthConfig,
+  store: OAuthStore,
+  ready: Promise<unknown> = Promise.resolve()
+): Record<RateLimitName, RequestHandler> {
+  const settings = config.rateLimit || {};
+  const counterStore = settings.store === 'memory' ? undefined : store;
+
+  const limiter = (name: RateLimitName): RequestHandler => {
+    const rule = settings[name];
+    return rule === false ? (_req, _res, next) => next() : createRateLimiter(name, rule, counterStore, ready);
+  };
+
+  return {
+    login: limiter('login'),
+    token: limiter('token'),
+    authorize: limiter('authorize'),
+    register: limiter('register'),
+    twoFactor: limiter('twoFactor'),
+    device: limiter('device'),
+    devicePoll: limiter('devicePoll'),
+    introspect: limiter('introspect'),
+    revoke: limiter('revoke'),
+    clientConfiguration: limiter('clientConfiguration'),
+    logout: limiter('logout'),
+  };
+}
 
 /**
  * Rate limiter for login endpoint
  * Limits to 5 attempts per 15 minutes per IP
  */
-export const loginRateLimiter = rateLimit({
-  windowMs: 15 * 60 * 1000, // 15 minutes
-  max: 5, // 5 attempts per window
-  message: {
-    error: 'too_many_requests',
-    error_description: 'Too many login attempts. Please try again in 15 minutes.',
-  },
-  standardHeaders: true, // Return rate limit info in headers
-  legacyHeaders: false, // Disable X-RateLimit-* headers
-  // Skip custom keyGenerator - use default (handles IPv6 correctly)
-});
+export const loginRateLimiter = createRateLimiter('login');
 
 /**
  * Rate limiter for token endpoint
  * More lenient than login (10 attempts per 15 minutes)
  */
-export const tokenRateLimiter = rateLimit({
-  windowMs: 15 * 60 * 1000, // 15 minutes
-  max: 10, // 10 attempts per window
-  message: {
-    error: 'too_many_requests',
-    error_description: 'Too many token requests. Please try again in 15 minutes.',
-  },
-  standardHeaders: true,
-  legacyHeaders: false,
-  // Skip custom keyGenerator - use default (handles IPv6 correctly)
-});
+export const tokenRateLimiter = createRateLimiter('token');
 
 /**
  * Rate limiter for authorization endpoint
  * More lenient (20 attempts per 15 minutes)
  */
-export const authorizeRateLimiter = rateLimit({
-  windowMs: 15 * 60 * 1000, // 15 minutes
-  max: 20, // 20 attempts per window
-  message: {
-    error: 'too_many_requests',
-    error_description: 'Too many authorization requests. Please try again in 15 minutes.',
-  },
-  standardHeaders: true,
-  legacyHeaders: false,
-  // Skip custom keyGenerator - use default (handles IPv6 correctly)
-});
+export const authorizeRateLimiter = createRateLimiter('authorize');
+
+/**
+ * Rate limiter for client registration endpoint
+ * Strict (10 registrations per hour), real clients register once
+ */
+export const registerRateLimiter = createRateLimiter('register');
+
+/**
+ * Rate limiter for two-factor code entry (login step and setup page)
+ * Separate from login, so the second step doesn't use up login attempts
+ */
+export const twoFactorRateLimiter = createRateLimiter('twoFactor');
+
+/**
+ * Rate limiter for device code polling at the token endpoint
+ * 30 polls per minute per IP and client (other grants are skipped)
+ */
+export const devicePollRateLimiter = createRateLimiter('devicePoll');
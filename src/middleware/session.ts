@@ -2,20 +2,21 @@
  * Express Session Middleware Configuration
  *
  * Configures secure session cookies for OAuth authentication
- * Uses PostgreSQL for persistent session storage
+ * Sessions are kept by the storage backend (PostgreSQL by default)
  */
 
 import session from 'express-session';
-import connectPgSimple from 'connect-pg-simple';
-import type { Pool } from 'pg';
-import type { OAuthConfig } from '../types/index.js';
+import type { NextFunction, Request, Response } from 'express';
+import type { OAuthConfig, OAuthStore } from '../types/index.js';
+import { touchSession } from '../oauth/sessions.js';
+import { getLogger } from '../utils/logger.js';
 
-const PgSession = connectPgSimple(session);
+const log = getLogger('sessions');
 
 /**
- * Create session middleware with PostgreSQL storage
+ * Create session middleware backed by the storage backend
  */
-export function createSessionMiddleware(config: OAuthConfig, pool: Pool) {
+export function createSessionMiddleware(config: OAuthConfig, store: OAuthStore) {
   // Detect production environment
   const IS_PRODUCTION = Boolean(
     process.env.NODE_ENV === 'production' ||
@@ -25,12 +26,7 @@ export function createSessionMiddleware(config: OAuthConfig, pool: Pool) {
   );
 
   return session({
-    store: new PgSession({
-      pool,
-      tableName: 'session', // PostgreSQL table name
-      createTableIfMissing: true, // Auto-create table on first run
-      pruneSessionInterval: 60 * 15, // Cleanup expired sessions every 15 minutes
-    }),
+    store: store.createSessionStore ? store.createSessionStore() : new session.MemoryStore(),
     name: config.sessionName || 'mcp_session',
     secret: config.sessionSecret,
     resave: false,
@@ -44,3 +40,30 @@ export function createSessionMiddleware(config: OAuthConfig, pool: Pool) {
     },
   });
 }
+
+/**
+ * Create middleware that keeps login sessions' last-seen time up to date
+ * and logs out sessions that were revoked (see oauth/sessions.ts)
+ */
+export function createSessionTrackingMiddleware(store: OAuthStore) {
+  return async function trackSession(req: Request, res: Response, next: NextFunction): Promise<void> {
+    if (!req.session?.userId) {
+      next();
+      return;
+    }
+
+    try {
+      if (await touchSession(store, req)) {
+        next();
+        return;
+      }
+
+      // Revoked or expired → continue with a fresh, logged-out session
+      log.info('Session revoked, logging out', { userId: req.session.userId });
+      req.session.regenerate((error) => next(error));
+    } catch (error) {
+      log.error('Failed to check session', { err: error });
+      next();
+    }
+  };
+}
@@ -0,0 +1,95 @@
+/**
+ * Session Management API (for the logged-in user)
+ *
+ * GET /account/sessions
+ *
+ * Lists the user's active sessions (IP, user agent, created and last-seen
+ * times); the one making the request is marked current.
+ *
+ * DELETE /account/sessions/:id
+ *
+ * Revokes one of the user's sessions.
+ *
+ * DELETE /account/sessions
+ *
+ * Revokes all of the user's sessions, including the current one.
+ */
+
+import type { Request, Response } from 'express';
+import { getSessionId, listUserSessions, revokeSession, revokeUserSessions } from './sessions.js';
+import { logAuthEvent } from '../utils/audit-log.js';
+import { getLogger } from '../utils/logger.js';
+import type { OAuthError, OAuthStore } from '../types/index.js';
+
+const log = getLogger('sessions');
+
+/**
+ * Send error response (same format as the OAuth endpoints)
+ */
+function sendError(res: Response, error: string, description?: string, status = 400): void {
+  const errorResponse: OAuthError = {
+    error,
+    error_description: description,
+  };
+
+  res.status(status).json(errorResponse);
+}
+
+/**
+ * Create session management handler (GET and DELETE)
+ */
+export function createAccountSessionsHandler(store: OAuthStore) {
+  return async function handleAccountSessions(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.session.userId;
+      if (!userId) {
+        sendError(res, 'login_required', 'Not logged in', 401);
+        return;
+      }
+
+      res.set('Cache-Control', 'no-store');
+      const currentId = getSessionId(req);
+
+      if (req.method === 'GET') {
+        const sessions = await listUserSessions(store, userId);
+        res.json({
+          sessions: sessions.map((session) => ({
+            id: session.id,
+            ip: session.ip,
+            user_agent: session.userAgent,
+            created_at: Math.floor(session.createdAt / 1000), // Unix timestamp in seconds
+            last_seen_at: Math.floor(session.lastSeenAt / 1000),
+            expires_at: Math.floor(session.expiresAt / 1000),
+            current: session.id === currentId,
+          })),
+        });
+        return;
+      }
+
+      const sessionId = req.params.id;
+
+      if (sessionId) {
+        // Only the user's own sessions
+        const sessions = await listUserSessions(store, userId);
+        if (!sessions.some((session) => session.id === sessionId)) {
+          sendError(res, 'not_found', 'Unknown session', 404);
+          return;
+        }
+
+        await revokeSession(store, sessionId);
+      } else {
+        await revokeUserSessions(store, userId);
+      }
+
+      await logAuthEvent(store, 'session_revoked', req, {
+        success: true,
+        metadata: { userId, sessionId: sessionId || 'all' },
+      });
+
+      res.status(204).end();
+    } catch (error) {
+      log.error('Session page failed', { err: error });
+      sendError(res, 'server_error', 'Internal server error', 500);
+    }
+  };
+}
@@ -0,0 +1,211 @@
+/**
+ * Admin Dashboard
+ *
+ * GET /admin/:section (/admin shows the clients)
+ *
+ * - clients: dynamically registered clients
+ * - sessions: active login sessions of every user
+ * - tokens: token families with a usable access or refresh token
+ * - audit: audit log, filterable by event, client, IP, outcome and date,
+ *   with CSV/NDJSON export (see audit-logs.ts)
+ *
+ * POST /admin/:section/:id/:action
+ *
+ * - clients/:id/rotate: issue a new client secret (shown once)
+ * - clients/:id/delete: delete the client and revoke its tokens
+ * - sessions/:id/revoke: log the session out
+ * - tokens/:id/revoke: revoke the token family
+ *
+ * Uses the normal login; only the users in OAuthConfig.admin.users (default:
+ * the owner account) get in. Only mounted when OAuthConfig.admin is set.
+ */
+
+import { randomBytes } from 'crypto';
+import type { Request, Response } from 'express';
+import { getUserById, isAdmin, listUsers } from './users.js';
+import { renderLoginForm } from './login.js';
+import { listClients, deleteClient, rotateClientSecret } from './clients.js';
+import { listUserSessions, revokeSession } from './sessions.js';
+import { listTokenFamilies, revokeTokenFamily } from './tokens.js';
+import { parseAuthLogFilter } from './audit-logs.js';
+import { isAuthLogCursor, logAuthEvent, queryAuthLogs } from '../utils/audit-log.js';
+import { getLogger } from '../utils/logger.js';
+import type { OAuthConfig, OAuthStore, User } from '../types/index.js';
+
+const ADMIN_PATH = '/admin';
+const SECTIONS = ['clients', 'sessions', 'tokens', 'audit'];
+const PAGE_SIZE = 100;
+
+const log = getLogger('admin');
+
+/**
+ * Format a Unix timestamp for the tables (UTC, minute precision)
+ */
+function formatTime(timestamp: number | undefined): string {
+  return timestamp === undefined ? '—' : new Date(timestamp).toISOString().slice(0, 16).replace('T', ' ');
+}
+
+/**
+ * Get the logged-in admin
+ * Renders the login form (not logged in) or a 403 (not an admin) otherwise
+ */
+async function getAdmin(
+  req: Request,
+  res: Response,
+  config: OAuthConfig,
+  store: OAuthStore
+): Promise<User | undefined> {
+  const user = req.session.userId ? await getUserById(store, req.session.userId) : undefined;
+  if (!user) {
+    renderLoginForm(res, { error: null, originalUrl: req.method === 'GET' ? req.originalUrl : ADMIN_PATH });
+    return undefined;
+  }
+
+  if (!isAdmin(config, user)) {
+    log.warn('Admin access denied', { userId: user.id, username: user.username });
+    res.status(403).send('Forbidden');
+    return undefined;
+  }
+
+  return user;
+}
+
+/**
+ * Load a section's data and render the dashboard
+ */
+async function renderDashboard(
+  req: Request,
+  res: Response,
+  store: OAuthStore,
+  admin: User,
+  section: string,
+  options: { newSecret?: { clientId: string; clientSecret: string } } = {}
+): Promise<void> {
+  if (!req.session.adminCsrfToken) {
+    req.session.adminCsrfToken = randomBytes(16).toString('base64url');
+  }
+
+  const usernames = new Map((await listUsers(store)).map((user) => [user.id, user.username]));
+  const audit = section === 'audit' ? parseAuthLogFilter(req.query) : undefined;
+  const auditPage = audit
+    ? await queryAuthLogs(store, {
+        ...audit.filter,
+        // A mangled "Older" link just starts over
+        cursor: isAuthLogCursor(audit.filter.cursor) ? audit.filter.cursor : undefined,
+        limit: PAGE_SIZE,
+      })
+    : undefined;
+
+  res.set('Cache-Control', 'no-store');
+  res.render('admin', {
+    username: admin.username,
+    section,
+    csrfToken: req.session.adminCsrfToken,
+    clients: section === 'clients' ? await listClients(store) : [],
+    sessions: section === 'sessions' ? await listUserSessions(store) : [],
+    tokens: section === 'tokens' ? await listTokenFamilies(store, PAGE_SIZE) : [],
+    events: auditPage?.events || [],
+    filter: audit?.values || {},
+    // Filter without paging, for the export and "Older" links
+    auditQuery: audit
+      ? new URLSearchParams(
+          Object.entries(audit.values).filter(([name, value]) => value && name !== 'cursor' && name !== 'limit')
+        ).toString()
+      : '',
+    nextCursor: auditPage?.nextCursor || null,
+    newSecret: options.newSecret || null,
+    usernames,
+    formatTime,
+  });
+}
+
+/**
+ * Create admin dashboard handler (GET)
+ */
+export function createAdminHandler(config: OAuthConfig, store: OAuthStore) {
+  return async function handleAdmin(req: Request, res: Response): Promise<void> {
+    try {
+      const admin = await getAdmin(req, res, config, store);
+      if (!admin) {
+        return;
+      }
+
+      const section = req.params.section || 'clients';
+      if (!SECTIONS.includes(section)) {
+        res.status(404).send('Not found');
+        return;
+      }
+
+      await renderDashboard(req, res, store, admin, section);
+    } catch (error) {
+      log.error('Admin page failed', { err: error });
+      res.status(500).send('Internal server error');
+    }
+  };
+}
+
+/**
+ * Create admin action handler (POST)
+ */
+export function createAdminActionHandler(config: OAuthConfig, store: OAuthStore) {
+  return async function handleAdminAction(req: Request, res: Response): Promise<void> {
+    try {
+      const admin = await getAdmin(req, res, config, store);
+      if (!admin) {
+        return;
+      }
+
+      const { section, id, action } = req.params;
+      const csrfToken = req.body?.csrf_token;
+
+      if (!req.session.adminCsrfToken || typeof csrfToken !== 'string' || csrfToken !== req.session.adminCsrfToken) {
+        log.warn('Invalid admin CSRF token', { userId: admin.id });
+        res.status(403).send('Forbidden');
+        return;
+      }
+
+      const logAction = (clientId?: string) =>
+        logAuthEvent(store, 'admin_action', req, {
+          success: true,
+          clientId,
+          metadata: { adminId: admin.id, action: `${section}.${action}`, target: id },
+        });
+
+      if (section === 'clients' && action === 'rotate') {
+        const rotated = await rotateClientSecret(store, id, {
+          gracePeriod: config.clientSecretRotationGracePeriod,
+          secretMaxAge: config.clientSecretMaxAge,
+        });
+        if (!rotated) {
+          res.status(404).send('Not found');
+          return;
+        }
+
+        await logAction(id);
+        await renderDashboard(req, res, store, admin, section, {
+          newSecret: { clientId: id, clientSecret: rotated.clientSecret },
+        });
+        return;
+      }
+
+      if (section === 'clients' && action === 'delete') {
+        await deleteClient(store, id);
+        await logAction(id);
+      } else if (section === 'sessions' && action === 'revoke') {
+        await revokeSession(store, id);
+        await logAction();
+      } else if (section === 'tokens' && action === 'revoke') {
+        await revokeTokenFamily(store, id);
+        await logAction();
+      } else {
+        res.status(404).send('Not found');
+        return;
+      }
+
+      res.redirect(303, `${ADMIN_PATH}/${section}`);
+    } catch (error) {
+      log.error('Admin action failed', { err: error });
+      res.status(500).send('Internal server error');
+    }
+  };
+}
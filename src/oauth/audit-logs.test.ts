@@ -0,0 +1,43 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import express from 'express';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import { setupOAuth } from '../index.js';
+import { createMemoryStore } from '../storage/memory.js';
+import type { OAuthConfig } from '../types/index.js';
+
+describe('audit log API', () => {
+  let server: Server | undefined;
+
+  afterEach(() => {
+    server?.close();
+  });
+
+  async function listen(options: Pick<OAuthConfig, 'admin' | 'auditLog'>): Promise<string> {
+    const app = express();
+    server = app.listen(0);
+    const baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+
+    const { ready } = setupOAuth(app, {
+      serverUrl: baseUrl,
+      database: createMemoryStore(),
+      clientId: 'static-client',
+      clientSecret: 'static-secret',
+      sessionSecret: 'test-session-secret-with-enough-length',
+      ...options,
+    });
+    await ready;
+    return baseUrl;
+  }
+
+  it.each([{ admin: {} }, { auditLog: { api: true } }])('is served with %j', async (options) => {
+    const baseUrl = await listen(options);
+    // Mounted, but needs an admin session
+    expect((await fetch(`${baseUrl}/admin/audit-logs`)).status).toBe(401);
+  });
+
+  it('is not served by default', async () => {
+    const baseUrl = await listen({});
+    expect((await fetch(`${baseUrl}/admin/audit-logs`)).status).toBe(404);
+  });
+});
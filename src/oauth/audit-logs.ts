@@ -0,0 +1,173 @@
+/**
+ * Audit Log API
+ *
+ * GET /admin/audit-logs
+ *
+ * Query parameters (all optional):
+ * - event, client_id, ip: exact matches
+ * - success: 'true' or 'false'
+ * - since, until: ISO 8601 dates or times (a date-only until includes that day)
+ * - limit (default: 100, max: 1000) and cursor (next_cursor of the previous page)
+ * - format: 'json' (default, one page), 'csv' or 'ndjson' (every matching
+ *   event, as a download)
+ *
+ * Requires an admin session (see the admin dashboard); mounted when
+ * OAuthConfig.admin is set or OAuthConfig.auditLog.api is true.
+ */
+
+import type { Request, Response } from 'express';
+import { getUserById, isAdmin } from './users.js';
+import { formatAuthEvent, isAuthLogCursor, queryAuthLogs } from '../utils/audit-log.js';
+import { getLogger } from '../utils/logger.js';
+import type { AuthEvent, AuthLogFilter, OAuthConfig, OAuthError, OAuthStore } from '../types/index.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const EXPORT_PAGE_SIZE = 1000;
+const CSV_COLUMNS = ['id', 'created_at', 'event', 'success', 'client_id', 'ip', 'user_agent', 'error_message', 'metadata'];
+
+const log = getLogger('audit');
+
+/**
+ * Send error response (same format as the OAuth endpoints)
+ */
+function sendError(res: Response, error: string, description?: string, status = 400): void {
+  const errorResponse: OAuthError = {
+    error,
+    error_description: description,
+  };
+
+  res.status(status).json(errorResponse);
+}
+
+/**
+ * Parse an audit log filter from query parameters
+ * Returns the filter and the raw values (for re-filling a form)
+ */
+export function parseAuthLogFilter(query: Request['query']): { filter: AuthLogFilter; values: Record<string, string> } {
+  const values: Record<string, string> = {};
+  for (const name of ['event', 'client_id', 'ip', 'success', 'since', 'until', 'limit', 'cursor']) {
+    const value = query[name];
+    values[name] = typeof value === 'string' ? value.trim() : '';
+  }
+
+  const since = Date.parse(values.since);
+  const until = Date.parse(values.until);
+  const limit = parseInt(values.limit, 10);
+
+  return {
+    values,
+    filter: {
+      event: (values.event || undefined) as AuthEvent | undefined,
+      clientId: values.client_id || undefined,
+      ip: values.ip || undefined,
+      success: values.success === 'true' ? true : values.success === 'false' ? false : undefined,
+      since: Number.isNaN(since) ? undefined : since,
+      until: Number.isNaN(until) ? undefined : /^\d{4}-\d{2}-\d{2}$/.test(values.until) ? until + DAY_MS : until,
+      limit: Number.isNaN(limit) ? undefined : limit,
+      cursor: values.cursor || undefined,
+    },
+  };
+}
+
+/**
+ * Quote a CSV field (RFC 4180); values that spreadsheets would run as
+ * formulas are prefixed with a quote
+ */
+function csvField(value: unknown): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+
+  let text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  if (/^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Write every matching event as CSV or NDJSON, a page at a time
+ */
+async function exportAuthLogs(
+  res: Response,
+  store: OAuthStore,
+  filter: AuthLogFilter,
+  format: 'csv' | 'ndjson'
+): Promise<void> {
+  res.set('Content-Type', format === 'csv' ? 'text/csv; charset=utf-8' : 'application/x-ndjson');
+  res.set('Content-Disposition', `attachment; filename="auth-logs.${format}"`);
+
+  if (format === 'csv') {
+    res.write(`${CSV_COLUMNS.join(',')}\r\n`);
+  }
+
+  let cursor = filter.cursor;
+  do {
+    const page = await queryAuthLogs(store, { ...filter, limit: EXPORT_PAGE_SIZE, cursor });
+
+    for (const entry of page.events) {
+      const event = formatAuthEvent(entry);
+      res.write(
+        format === 'csv'
+          ? `${CSV_COLUMNS.map((column) => csvField(event[column as keyof typeof event])).join(',')}\r\n`
+          : `${JSON.stringify(event)}\n`
+      );
+    }
+
+    cursor = page.nextCursor;
+  } while (cursor);
+
+  res.end();
+}
+
+/**
+ * Create audit log API handler (GET)
+ */
+export function createAuditLogsHandler(config: OAuthConfig, store: OAuthStore) {
+  return async function handleAuditLogs(req: Request, res: Response): Promise<void> {
+    try {
+      const user = req.session.userId ? await getUserById(store, req.session.userId) : undefined;
+      if (!user) {
+        sendError(res, 'login_required', 'Not logged in', 401);
+        return;
+      }
+      if (!isAdmin(config, user)) {
+        sendError(res, 'access_denied', 'Admin access required', 403);
+        return;
+      }
+
+      const { filter } = parseAuthLogFilter(req.query);
+      if (filter.cursor !== undefined && !isAuthLogCursor(filter.cursor)) {
+        sendError(res, 'invalid_request', 'Invalid cursor');
+        return;
+      }
+
+      const format = req.query.format || 'json';
+      if (format !== 'json' && format !== 'csv' && format !== 'ndjson') {
+        sendError(res, 'invalid_request', 'format must be json, csv or ndjson');
+        return;
+      }
+
+      res.set('Cache-Control', 'no-store');
+
+      if (format !== 'json') {
+        log.info('Audit log export', { format, userId: user.id, username: user.username });
+        await exportAuthLogs(res, store, filter, format);
+        return;
+      }
+
+      const page = await queryAuthLogs(store, filter);
+      res.json({
+        events: page.events.map(formatAuthEvent),
+        next_cursor: page.nextCursor,
+      });
+    } catch (error) {
+      log.error('Audit log request failed', { err: error });
+      if (res.headersSent) {
+        res.end();
+        return;
+      }
+      sendError(res, 'server_error', 'Internal server error', 500);
+    }
+  };
+}
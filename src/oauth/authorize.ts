@@ -6,16 +6,44 @@
  * Handles authorization requests:
  * 1. Validate query parameters
  * 2. Check redirect_uri whitelist
- * 3. If authenticated → auto-approve and redirect
+ * 3. Check the requested scopes and resource indicator against the configured
+ *    ones (RFC 8707)
  * 4. If not authenticated → show login form
+ * 5. If authenticated and the client is trusted (static client) or the user
+ *    already approved the requested scopes → approve and redirect
+ * 6. Otherwise → show consent screen
+ *
+ * POST /oauth/authorize
+ *
+ * Handles the consent decision:
+ * - Approve → remember the grant, approve and redirect
+ * - Deny → redirect back with error=access_denied
  */
 
+import { randomBytes } from 'crypto';
 import type { Request, Response } from 'express';
-import type { Pool } from 'pg';
 import { storeAuthCode } from './storage.js';
 import { validateCodeChallenge } from './pkce.js';
 import { isValidClientId, getClient } from './clients.js';
-import type { AuthorizationRequest, OAuthError, OAuthConfig } from '../types/index.js';
+import { getUserById } from './users.js';
+import { renderLoginForm } from './login.js';
+import { hasGrant, saveGrant } from './grants.js';
+import { isSupportedScope, parseScope } from './scopes.js';
+import { getDefaultResource, resolveResource } from './resources.js';
+import { logAuthEvent } from '../utils/audit-log.js';
+import { getLogger } from '../utils/logger.js';
+import type {
+  AuthorizationRequest,
+  OAuthError,
+  OAuthConfig,
+  RegisteredClient,
+  User,
+  OAuthStore,
+} from '../types/index.js';
+
+const CONSENT_EXPIRATION_MS = 10 * 60 * 1000; // 10 minutes
+
+const log = getLogger('authorize');
 
 /**
  * Validate redirect_uri against whitelist
@@ -41,17 +69,20 @@ function sendError(res: Response, error: string, description?: string): void {
  */
 async function approveAndRedirect(
   res: Response,
-  pool: Pool,
-  authReq: AuthorizationRequest
+  store: OAuthStore,
+  authReq: AuthorizationRequest,
+  userId: string
 ): Promise<void> {
   // Generate and store authorization code
   const code = await storeAuthCode(
-    pool,
+    store,
     authReq.client_id,
     authReq.redirect_uri,
     authReq.code_challenge,
     authReq.code_challenge_method,
-    authReq.scope
+    authReq.scope,
+    userId,
+    authReq.resource
   );
 
   // Build redirect URL
@@ -62,15 +93,62 @@ async function approveAndRedirect(
     redirectUrl.searchParams.set('state', authReq.state);
   }
 
-  console.log('[OAuth Authorize] Generated authorization code:', code);
-  console.log('[OAuth Authorize] Redirect URL:', redirectUrl.toString());
+  log.info('Authorization code issued', { clientId: authReq.client_id, userId });
   res.redirect(redirectUrl.toString());
 }
 
+/**
+ * Redirect back to client with an error (RFC 6749 Section 4.1.2.1)
+ */
+function redirectWithError(res: Response, authReq: AuthorizationRequest, error: string): void {
+  const redirectUrl = new URL(authReq.redirect_uri);
+  redirectUrl.searchParams.set('error', error);
+
+  if (authReq.state) {
+    redirectUrl.searchParams.set('state', authReq.state);
+  }
+
+  res.redirect(redirectUrl.toString());
+}
+
+/**
+ * Show consent screen for a client the user hasn't approved yet
+ */
+function renderConsentScreen(
+  req: Request,
+  res: Response,
+  authReq: AuthorizationRequest,
+  client: RegisteredClient | undefined,
+  user: User,
+  scope: string
+): void {
+  // Remember the pending request server-side; the random ID doubles as CSRF token
+  const consentId = randomBytes(16).toString('base64url');
+  req.session.pendingConsent = {
+    id: consentId,
+    request: authReq,
+    createdAt: Date.now(),
+  };
+
+  res.render('consent', {
+    consentId,
+    clientId: authReq.client_id,
+    clientName: client?.client_name || authReq.client_id,
+    logoUri: client?.logo_uri || null,
+    clientUri: client?.client_uri || null,
+    redirectUri: authReq.redirect_uri,
+    resource: authReq.resource,
+    scopes: parseScope(scope),
+    username: user.username,
+  });
+}
+
 /**
  * Create authorization handler
  */
-export function createAuthorizeHandler(config: OAuthConfig, pool: Pool) {
+export function createAuthorizeHandler(config: OAuthConfig, store: OAuthStore) {
+  const scopes = config.scopes || ['mcp:tools:*', 'mcp:resources:*', 'mcp:prompts:*'];
+
   return async function handleAuthorize(req: Request, res: Response): Promise<void> {
     try {
       // Extract query parameters
@@ -82,16 +160,17 @@ export function createAuthorizeHandler(config: OAuthConfig, pool: Pool) {
         code_challenge_method,
         state,
         scope,
+        resource,
       } = req.query;
 
-      console.log('[OAuth Authorize] Request received:', {
-        client_id,
-        redirect_uri,
-        response_type,
-        code_challenge_method,
-        state,
+      log.debug('Request received', {
+        clientId: client_id,
+        redirectUri: redirect_uri,
+        responseType: response_type,
+        codeChallengeMethod: code_challenge_method,
         scope,
-        authenticated: req.session.authenticated,
+        resource,
+        userId: req.session.userId,
       });
 
       // Validate required parameters
@@ -127,7 +206,7 @@ export function createAuthorizeHandler(config: OAuthConfig, pool: Pool) {
       }
 
       // Validate client_id (supports both static and dynamic clients)
-      const clientIdValid = await isValidClientId(pool, client_id, config.clientId);
+      const clientIdValid = await isValidClientId(store, client_id, config.clientId);
       if (!clientIdValid) {
         sendError(res, 'unauthorized_client', 'Invalid client_id');
         return;
@@ -137,6 +216,7 @@ export function createAuthorizeHandler(config: OAuthConfig, pool: Pool) {
       // For static client: check against whitelist
       // For dynamic client: check against registered redirect URIs
       let redirectUriValid = false;
+      let client: RegisteredClient | undefined;
 
       const allowedPrefixes = config.allowedRedirectPrefixes || [
         'https://claude.ai/',
@@ -148,7 +228,7 @@ export function createAuthorizeHandler(config: OAuthConfig, pool: Pool) {
         redirectUriValid = isValidRedirectUri(redirect_uri, allowedPrefixes);
       } else {
         // Dynamic client: check registered redirect URIs
-        const client = await getClient(pool, client_id);
+        client = await getClient(store, client_id);
         if (client) {
           redirectUriValid = client.redirect_uris.includes(redirect_uri);
         }
@@ -170,26 +250,119 @@ export function createAuthorizeHandler(config: OAuthConfig, pool: Pool) {
         scope: typeof scope === 'string' ? scope : undefined,
       };
 
+      if (authReq.scope && !isSupportedScope(authReq.scope, scopes)) {
+        log.info('Unsupported scope requested', { clientId: client_id, scope: authReq.scope });
+        redirectWithError(res, authReq, 'invalid_scope');
+        return;
+      }
+
+      // Tokens are only issued for the configured MCP servers; the redirect_uri
+      // is verified by now, so the error goes back to the client (RFC 8707 Section 2)
+      const tokenResource = resolveResource(config, resource);
+      if (!tokenResource) {
+        log.info('Unknown resource requested', { clientId: client_id, resource });
+        redirectWithError(res, authReq, 'invalid_target');
+        return;
+      }
+      authReq.resource = tokenResource;
+
       // Check if user is already authenticated (session cookie)
-      if (req.session.authenticated) {
-        console.log('[OAuth Authorize] User already authenticated, auto-approving');
-        console.log('[OAuth Authorize] Auth request:', JSON.stringify(authReq, null, 2));
-        await approveAndRedirect(res, pool, authReq);
+      // and the account still exists
+      const user = req.session.userId ? await getUserById(store, req.session.userId) : undefined;
+      if (user) {
+        const requestedScope = authReq.scope || scopes.join(' ');
+
+        // Static client is pre-registered by the operator → trusted, no consent needed
+        const approved = client_id === config.clientId ||
+          await hasGrant(store, user.id, client_id, tokenResource, requestedScope);
+
+        if (approved) {
+          log.debug('User already authenticated and consented, approving', { userId: user.id, clientId: client_id });
+          await approveAndRedirect(res, store, authReq, user.id);
+          return;
+        }
+
+        log.debug('Consent required', { clientId: client_id });
+        renderConsentScreen(req, res, authReq, client, user, requestedScope);
         return;
       }
 
       // User not authenticated → show login form
-      console.log('[OAuth Authorize] User not authenticated, showing login form');
+      log.debug('User not authenticated, showing login form');
 
       // Encode the current URL to return to after login
       const originalUrl = req.originalUrl;
 
-      res.render('login', {
+      renderLoginForm(res, {
         error: null,
         originalUrl,
       });
     } catch (error) {
-      console.error('[OAuth Authorize] Error:', error);
+      log.error('Authorization request failed', { err: error });
+      sendError(res, 'server_error', 'Internal server error');
+    }
+  };
+}
+
+/**
+ * Create consent decision handler
+ */
+export function createConsentHandler(config: OAuthConfig, store: OAuthStore) {
+  const scopes = config.scopes || ['mcp:tools:*', 'mcp:resources:*', 'mcp:prompts:*'];
+
+  return async function handleConsent(req: Request, res: Response): Promise<void> {
+    try {
+      const { consent_id, decision } = req.body;
+      const pending = req.session.pendingConsent;
+
+      log.debug('Consent decision received', { decision });
+
+      if (
+        !pending ||
+        typeof consent_id !== 'string' ||
+        pending.id !== consent_id ||
+        Date.now() - pending.createdAt > CONSENT_EXPIRATION_MS
+      ) {
+        sendError(res, 'invalid_request', 'Consent request is invalid or expired');
+        return;
+      }
+
+      // Single-use
+      delete req.session.pendingConsent;
+      const authReq = pending.request;
+
+      const user = req.session.userId ? await getUserById(store, req.session.userId) : undefined;
+      if (!user) {
+        sendError(res, 'invalid_request', 'Not logged in');
+        return;
+      }
+
+      if (decision !== 'approve') {
+        log.info('User denied consent', { clientId: authReq.client_id, userId: user.id });
+
+        await logAuthEvent(store, 'consent_denied', req, {
+          success: false,
+          clientId: authReq.client_id,
+          metadata: { userId: user.id, scope: authReq.scope },
+        });
+
+        redirectWithError(res, authReq, 'access_denied');
+        return;
+      }
+
+      const approvedScope = authReq.scope || scopes.join(' ');
+      const approvedResource = authReq.resource || getDefaultResource(config);
+      await saveGrant(store, user.id, authReq.client_id, approvedResource, approvedScope);
+
+      await logAuthEvent(store, 'consent_granted', req, {
+        success: true,
+        clientId: authReq.client_id,
+        metadata: { userId: user.id, scope: approvedScope },
+      });
+
+      await approveAndRedirect(res, store, authReq, user.id);
+    } catch (error) {
+      log.error('Consent decision failed', { err: error });
       sendError(res, 'server_error', 'Internal server error');
     }
   };
@@ -0,0 +1,176 @@
+/**
+ * OAuth Client Authentication
+ *
+ * Shared by the token, device authorization, introspection and revocation endpoints:
+ * 1. Read the presented credentials (HTTP Basic header or request body)
+ * 2. Look up the client (static or dynamically registered)
+ * 3. Enforce the client's registered token_endpoint_auth_method
+ *    (a client can't switch or downgrade methods)
+ * 4. Public clients (none) only need a known client_id; confidential
+ *    clients must present a valid client_secret
+ */
+
+import type { Request, Response } from 'express';
+import { validateClient, getClient } from './clients.js';
+import type { OAuthConfig, RegisteredClient, OAuthStore } from '../types/index.js';
+
+export type ClientAuthMethod = 'client_secret_basic' | 'client_secret_post' | 'none';
+
+export interface ClientCredentials {
+  clientId?: string;
+  clientSecret?: string;
+  /** How the credentials were presented */
+  method: ClientAuthMethod;
+}
+
+export interface ClientAuthError {
+  error: string;
+  errorDescription: string;
+}
+
+export type ClientAuthResult =
+  | {
+      authenticated: true;
+      clientId: string;
+      /** Registered client (undefined for the static client) */
+      client?: RegisteredClient;
+      isStaticClient: boolean;
+      /** True for public clients that presented no secret */
+      isPublicClient: boolean;
+    }
+  | ({ authenticated: false } & ClientAuthError);
+
+/**
+ * Decode an application/x-www-form-urlencoded value ('+' is a space)
+ */
+function formUrlDecode(value: string): string {
+  return decodeURIComponent(value.replace(/\+/g, ' '));
+}
+
+/**
+ * Read client credentials from the request
+ *
+ * RFC 6749 Section 2.3.1: with HTTP Basic, client_id and client_secret are
+ * form-url-encoded before being joined with ':' and base64-encoded.
+ * Using more than one authentication method in a request is an error.
+ */
+export function readClientCredentials(req: Request): ClientCredentials | ClientAuthError {
+  const body = req.body || {};
+  const bodyClientId = typeof body.client_id === 'string' && body.client_id ? body.client_id : undefined;
+  const bodyClientSecret = typeof body.client_secret === 'string' && body.client_secret
+    ? body.client_secret
+    : undefined;
+
+  const authHeader = req.headers.authorization;
+  if (!authHeader || !/^Basic /i.test(authHeader)) {
+    return {
+      clientId: bodyClientId,
+      clientSecret: bodyClientSecret,
+      method: bodyClientSecret ? 'client_secret_post' : 'none',
+    };
+  }
+
+  if (bodyClientSecret) {
+    return {
+      error: 'invalid_request',
+      errorDescription: 'Client credentials must not be sent in both the Authorization header and the body',
+    };
+  }
+
+  const decoded = Buffer.from(authHeader.slice(6).trim(), 'base64').toString('utf8');
+  const separator = decoded.indexOf(':');
+
+  let clientId: string;
+  let clientSecret: string;
+  try {
+    if (separator === -1) {
+      throw new Error('Missing separator');
+    }
+    clientId = formUrlDecode(decoded.slice(0, separator));
+    clientSecret = formUrlDecode(decoded.slice(separator + 1));
+  } catch {
+    return { error: 'invalid_client', errorDescription: 'Malformed Basic authorization header' };
+  }
+
+  if (!clientId || !clientSecret) {
+    return { error: 'invalid_client', errorDescription: 'Malformed Basic authorization header' };
+  }
+
+  if (bodyClientId && bodyClientId !== clientId) {
+    return {
+      error: 'invalid_request',
+      errorDescription: 'client_id does not match the Authorization header',
+    };
+  }
+
+  return { clientId, clientSecret, method: 'client_secret_basic' };
+}
+
+/**
+ * Ask the client to retry with HTTP Basic after an invalid_client error
+ * (RFC 6749 Section 5.2: required when the client used the Authorization header)
+ */
+export function setBasicChallenge(req: Request, res: Response, config: OAuthConfig): void {
+  if (/^Basic /i.test(req.headers.authorization || '')) {
+    res.set('WWW-Authenticate', `Basic realm="${config.serverUrl}"`);
+  }
+}
+
+/**
+ * Authenticate a client from the credentials it presented
+ */
+export async function authenticateClient(
+  store: OAuthStore,
+  config: OAuthConfig,
+  credentials: ClientCredentials
+): Promise<ClientAuthResult> {
+  const { clientId, clientSecret, method } = credentials;
+  if (!clientId) {
+    return { authenticated: false, error: 'invalid_client', errorDescription: 'Missing or invalid client_id' };
+  }
+
+  // Look up the registered client to check its auth method
+  const client = await getClient(store, clientId);
+  const isStaticClient = clientId === config.clientId;
+
+  if (!client && !isStaticClient) {
+    return { authenticated: false, error: 'invalid_client', errorDescription: 'Invalid client_id' };
+  }
+
+  const expectedMethod = client
+    ? client.token_endpoint_auth_method
+    : config.clientAuthMethod || 'client_secret_post';
+
+  if (method !== expectedMethod) {
+    return {
+      authenticated: false,
+      error: 'invalid_client',
+      errorDescription: method === 'none'
+        ? 'Missing client credentials'
+        : `Client must authenticate with ${expectedMethod}`,
+    };
+  }
+
+  if (method === 'none') {
+    // Public client - no secret required, just a known client_id
+    return { authenticated: true, clientId, client, isStaticClient, isPublicClient: true };
+  }
+
+  const isValid = await validateClient(
+    store,
+    clientId,
+    clientSecret as string,
+    config.clientId,
+    config.clientSecret
+  );
+
+  if (!isValid) {
+    return {
+      authenticated: false,
+      error: 'invalid_client',
+      errorDescription: 'Invalid client_id or client_secret',
+    };
+  }
+
+  return { authenticated: true, clientId, client, isStaticClient, isPublicClient: false };
+}
@@ -1,13 +1,18 @@
 /**
  * Dynamic Client Registration Storage (RFC 7591)
  *
- * Stores dynamically registered OAuth clients in PostgreSQL
- * Persists across server restarts and deployments
+ * Stores dynamically registered OAuth clients in the configured store
+ * (PostgreSQL by default, so they persist across restarts and deployments)
  */
 
-import { randomBytes } from 'crypto';
-import type { Pool } from 'pg';
-import type { RegisteredClient } from '../types/index.js';
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { generateToken, hashToken, revokeClientTokens } from './tokens.js';
+import { getLogger } from '../utils/logger.js';
+import type { OAuthStore, RegisteredClient } from '../types/index.js';
+
+const log = getLogger('clients');
+
+const DEFAULT_SECRET_ROTATION_GRACE_PERIOD = 24 * 60 * 60 * 1000; // 24 hours
 
 /**
  * Generate a client ID (RFC 7591 doesn't specify format)
@@ -26,93 +31,206 @@ export function generateClientSecret(): string {
 }
 
 /**
- * Register a new OAuth client in the database
+ * Hash a client secret for storage (format: sha256$<salt>$<hash>)
+ * Secrets are random 256-bit values, so a salted SHA-256 is enough;
+ * the salt keeps the hash from matching anything but this one row
+ */
+export function hashClientSecret(secret: string): string {
+  const salt = randomBytes(16).toString('hex');
+  return `sha256$${salt}$${createHash('sha256').update(salt + secret).digest('hex')}`;
+}
+
+/**
+ * Check a secret against a stored hash in constant time
+ */
+function secretMatchesHash(secret: string, storedHash: string | undefined): boolean {
+  const [scheme, salt, hash] = (storedHash || '').split('$');
+  if (scheme !== 'sha256' || !salt || !hash) {
+    return false;
+  }
+
+  const expected = Buffer.from(hash, 'hex');
+  const actual = createHash('sha256').update(salt + secret).digest();
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * Check a secret against the client's current secret, or the previous
+ * one while its rotation grace period lasts
+ */
+export function verifyClientSecret(client: RegisteredClient, secret: string): boolean {
+  const now = Date.now();
+
+  // Both hashes are always checked so timing doesn't reveal which one matched
+  const matchesCurrent = secretMatchesHash(secret, client.clientSecretHash);
+  const matchesPrevious = secretMatchesHash(secret, client.previousClientSecretHash);
+
+  const currentValid = client.clientSecretExpiresAt === undefined || client.clientSecretExpiresAt > now;
+  const previousValid =
+    client.previousClientSecretExpiresAt !== undefined && client.previousClientSecretExpiresAt > now;
+
+  return (matchesCurrent && currentValid) || (matchesPrevious && previousValid);
+}
+
+/**
+ * Compare two strings in constant time (hashed first so lengths match)
+ */
+function constantTimeEquals(a: string, b: string): boolean {
+  return timingSafeEqual(
+    createHash('sha256').update(a).digest(),
+    createHash('sha256').update(b).digest()
+  );
+}
+
+/**
+ * Generate an RFC 7592 registration access token
+ * Only its hash is stored; the raw token is returned to the client once
+ */
+export function generateRegistrationAccessToken(): { token: string; hash: string } {
+  const token = generateToken();
+  return { token, hash: hashToken(token) };
+}
+
+/**
+ * Check a registration access token against the client's stored hash
+ */
+export function verifyRegistrationAccessToken(client: RegisteredClient, token: string): boolean {
+  if (!client.registrationAccessTokenHash) {
+    return false;
+  }
+
+  const expected = Buffer.from(client.registrationAccessTokenHash, 'hex');
+  const actual = Buffer.from(hashToken(token), 'hex');
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * Register a new OAuth client
+ * Returns the client with its raw secret and registration access token
+ * (neither is stored, so this is the only time they're available)
  */
 export async function registerClient(
-  pool: Pool,
+  store: OAuthStore,
   clientName: string | undefined,
   redirectUris: string[],
   tokenEndpointAuthMethod: string,
   grantTypes: string[],
   responseTypes: string[],
-  scope?: string
-): Promise<RegisteredClient> {
+  scope?: string,
+  metadata: { logoUri?: string; clientUri?: string } = {},
+  secretMaxAge?: number
+): Promise<{ client: RegisteredClient; clientSecret: string; registrationAccessToken: string }> {
   const clientId = generateClientId();
   const clientSecret = generateClientSecret();
+  const registrationAccessToken = generateRegistrationAccessToken();
+  const now = Date.now();
+
+  const client: RegisteredClient = {
+    client_id: clientId,
+    clientSecretHash: hashClientSecret(clientSecret),
+    clientSecretExpiresAt: secretMaxAge ? now + secretMaxAge : undefined,
+    client_name: clientName,
+    logo_uri: metadata.logoUri,
+    client_uri: metadata.clientUri,
+    redirect_uris: redirectUris,
+    token_endpoint_auth_method: tokenEndpointAuthMethod,
+    grant_types: grantTypes,
+    response_types: responseTypes,
+    scope,
+    createdAt: now,
+    registrationAccessTokenHash: registrationAccessToken.hash,
+  };
 
   try {
-    await pool.query(
-      `INSERT INTO oauth_clients
-        (client_id, client_secret, client_name, redirect_uris, token_endpoint_auth_method, grant_types, response_types, scope)
-       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
-      [
-        clientId,
-        clientSecret,
-        clientName,
-        redirectUris,
-        tokenEndpointAuthMethod,
-        grantTypes,
-        responseTypes,
-        scope,
-      ]
-    );
-
-    console.log(`[OAuth Clients] Registered new client in database: ${clientId} (${clientName || 'unnamed'})`);
-
-    const client: RegisteredClient = {
-      client_id: clientId,
-      client_secret: clientSecret,
-      client_name: clientName,
-      redirect_uris: redirectUris,
-      token_endpoint_auth_method: tokenEndpointAuthMethod,
-      grant_types: grantTypes,
-      response_types: responseTypes,
-      scope,
-      createdAt: Date.now(),
-    };
+    await store.saveClient(client);
 
-    return client;
+    log.info('Client registered', { clientId, clientName });
+
+    return { client, clientSecret, registrationAccessToken: registrationAccessToken.token };
   } catch (error) {
-    console.error('[OAuth Clients] Failed to register client:', error);
+    log.error('Failed to register client', { err: error });
     throw new Error('Failed to register OAuth client');
   }
 }
 
 /**
- * Get a registered client by ID from the database
+ * Get a registered client by ID
  */
-export async function getClient(pool: Pool, clientId: string): Promise<RegisteredClient | undefined> {
+export async function getClient(store: OAuthStore, clientId: string): Promise<RegisteredClient | undefined> {
   try {
-    const result = await pool.query(
-      'SELECT * FROM oauth_clients WHERE client_id = $1',
-      [clientId]
-    );
-
-    if (result.rows.length === 0) {
-      console.log(`[OAuth Clients] Client ${clientId}: NOT FOUND in database`);
-      return undefined;
-    }
-
-    const row = result.rows[0];
-    console.log(`[OAuth Clients] Client ${clientId}: FOUND in database`);
-
-    const client: RegisteredClient = {
-      client_id: row.client_id,
-      client_secret: row.client_secret,
-      client_name: row.client_name,
-      redirect_uris: row.redirect_uris,
-      token_endpoint_auth_method: row.token_endpoint_auth_method,
-      grant_types: row.grant_types,
-      response_types: row.response_types,
-      scope: row.scope,
-      createdAt: new Date(row.created_at).getTime(),
-    };
-
+    const client = await store.getClient(clientId);
+    log.debug('Client lookup', { clientId, found: Boolean(client) });
     return client;
   } catch (error) {
-    console.error('[OAuth Clients] Failed to get client:', error);
+    log.error('Failed to get client', { err: error });
+    return undefined;
+  }
+}
+
+/**
+ * List every registered client, newest first
+ */
+export async function listClients(store: OAuthStore): Promise<RegisteredClient[]> {
+  return store.listClients();
+}
+
+/**
+ * Save changes to a registered client
+ */
+export async function updateClient(store: OAuthStore, client: RegisteredClient): Promise<void> {
+  try {
+    await store.updateClient(client);
+    log.info('Client updated', { clientId: client.client_id });
+  } catch (error) {
+    log.error('Failed to update client', { err: error });
+    throw new Error('Failed to update OAuth client');
+  }
+}
+
+/**
+ * Issue a new secret for a registered client
+ * The old secret keeps working for gracePeriod milliseconds (default: 24 hours)
+ * so deployments can switch over. Returns the raw new secret, or undefined
+ * if the client doesn't exist.
+ */
+export async function rotateClientSecret(
+  store: OAuthStore,
+  clientId: string,
+  options: { gracePeriod?: number; secretMaxAge?: number } = {}
+): Promise<{ client: RegisteredClient; clientSecret: string } | undefined> {
+  const existing = await getClient(store, clientId);
+  if (!existing) {
     return undefined;
   }
+
+  const now = Date.now();
+  const gracePeriod = options.gracePeriod ?? DEFAULT_SECRET_ROTATION_GRACE_PERIOD;
+  // The old secret never outlives its own expiry
+  const previousExpiresAt = Math.min(now + gracePeriod, existing.clientSecretExpiresAt ?? Infinity);
+
+  const clientSecret = generateClientSecret();
+  const client: RegisteredClient = {
+    ...existing,
+    clientSecretHash: hashClientSecret(clientSecret),
+    clientSecretExpiresAt: options.secretMaxAge ? now + options.secretMaxAge : undefined,
+    previousClientSecretHash: previousExpiresAt > now ? existing.clientSecretHash : undefined,
+    previousClientSecretExpiresAt: previousExpiresAt > now ? previousExpiresAt : undefined,
+  };
+
+  await updateClient(store, client);
+  log.info('Client secret rotated', { clientId });
+
+  return { client, clientSecret };
+}
+
+/**
+ * Delete a registered client and revoke every token issued to it
+ */
+export async function deleteClient(store: OAuthStore, clientId: string): Promise<boolean> {
+  await revokeClientTokens(store, clientId);
+  const deleted = await store.deleteClient(clientId);
+  log.info('Client deleted', { clientId });
+  return deleted;
 }
 
 /**
@@ -120,34 +238,30 @@ export async function getClient(pool: Pool, clientId: string): Promise<Registere
  * Returns true if credentials are valid (either static or dynamic)
  */
 export async function validateClient(
-  pool: Pool,
+  store: OAuthStore,
   clientId: string,
   clientSecret: string,
   staticClientId: string,
   staticClientSecret: string
 ): Promise<boolean> {
   // Check static client (pre-registered)
-  if (clientId === staticClientId && clientSecret === staticClientSecret) {
-    return true;
-  }
-
-  // Check dynamic client from database
-  const client = await getClient(pool, clientId);
-  if (client && client.client_secret === clientSecret) {
-    return true;
+  if (clientId === staticClientId) {
+    return constantTimeEquals(clientSecret, staticClientSecret);
   }
 
-  return false;
+  // Check dynamically registered client
+  const client = await getClient(store, clientId);
+  return client !== undefined && verifyClientSecret(client, clientSecret);
 }
 
 /**
  * Check if a client ID exists (static or dynamic)
  */
-export async function isValidClientId(pool: Pool, clientId: string, staticClientId: string): Promise<boolean> {
+export async function isValidClientId(store: OAuthStore, clientId: string, staticClientId: string): Promise<boolean> {
   if (clientId === staticClientId) {
     return true;
   }
 
-  const client = await getClient(pool, clientId);
+  const client = await getClient(store, clientId);
   return client !== undefined;
 }
@@ -0,0 +1,135 @@
+/**
+ * Device Code Storage (RFC 8628)
+ *
+ * A device authorization has two codes: the device_code the client polls
+ * the token endpoint with (stored hashed), and the short user_code the user
+ * types in at /device. Both expire after 10 minutes.
+ */
+
+import { randomInt } from 'crypto';
+import { generateToken, hashToken } from './tokens.js';
+import { getLogger } from '../utils/logger.js';
+import type { OAuthStore, RegisteredClient, StoredDeviceCode } from '../types/index.js';
+
+const log = getLogger('device');
+
+export const DEVICE_CODE_GRANT_TYPE = 'urn:ietf:params:oauth:grant-type:device_code';
+export const DEVICE_CODE_EXPIRATION_MS = 10 * 60 * 1000; // 10 minutes
+export const DEFAULT_POLL_INTERVAL = 5; // Seconds
+export const SLOW_DOWN_INCREMENT = 5; // Seconds (RFC 8628 Section 3.5)
+
+// No vowels (no accidental words) and no easily confused characters (RFC 8628 Section 6.1)
+const USER_CODE_ALPHABET = 'BCDFGHJKLMNPQRSTVWXZ';
+const USER_CODE_LENGTH = 8;
+
+/**
+ * Generate a user code: 8 characters from a 20-letter alphabet (~34 bits)
+ */
+function generateUserCode(): string {
+  let userCode = '';
+  for (let i = 0; i < USER_CODE_LENGTH; i++) {
+    userCode += USER_CODE_ALPHABET[randomInt(USER_CODE_ALPHABET.length)];
+  }
+  return userCode;
+}
+
+/**
+ * Normalize a user code as typed: case and separators don't matter
+ */
+export function normalizeUserCode(userCode: string): string {
+  return userCode.toUpperCase().replace(/[^A-Z]/g, '');
+}
+
+/**
+ * Format a user code for display, e.g. 'WDJB-MJHT'
+ */
+export function formatUserCode(userCode: string): string {
+  return `${userCode.slice(0, 4)}-${userCode.slice(4)}`;
+}
+
+/**
+ * Check whether a client may use the device_code grant
+ * Static client always can; dynamic clients must have registered it
+ */
+export function canUseDeviceCodes(client: RegisteredClient | undefined, isStaticClient: boolean): boolean {
+  if (isStaticClient) {
+    return true;
+  }
+  return Boolean(client?.grant_types.includes(DEVICE_CODE_GRANT_TYPE));
+}
+
+/**
+ * Start a device authorization
+ * Returns the device_code (only stored hashed) and the stored record
+ */
+export async function createDeviceCode(
+  store: OAuthStore,
+  clientId: string,
+  scope?: string,
+  resource?: string
+): Promise<{ deviceCode: string; stored: StoredDeviceCode }> {
+  const deviceCode = generateToken();
+  const now = Date.now();
+  const stored: StoredDeviceCode = {
+    deviceCodeHash: hashToken(deviceCode),
+    userCode: generateUserCode(),
+    clientId,
+    scope,
+    resource,
+    status: 'pending',
+    interval: DEFAULT_POLL_INTERVAL,
+    createdAt: now,
+    expiresAt: now + DEVICE_CODE_EXPIRATION_MS,
+  };
+
+  try {
+    // Opportunistic cleanup, so expired user codes don't pile up
+    await store.deleteExpiredDeviceCodes();
+    await store.saveDeviceCode(stored);
+
+    log.debug('Device code issued', { clientId });
+    return { deviceCode, stored };
+  } catch (error) {
+    log.error('Failed to store device code', { err: error });
+    throw new Error('Failed to store device code');
+  }
+}
+
+/**
+ * Get a pending or decided device authorization by the code the user typed in
+ */
+export async function getDeviceCodeByUserCode(
+  store: OAuthStore,
+  userCode: string
+): Promise<StoredDeviceCode | undefined> {
+  const normalized = normalizeUserCode(userCode);
+  if (normalized.length !== USER_CODE_LENGTH) {
+    return undefined;
+  }
+  return store.getDeviceCodeByUserCode(normalized);
+}
+
+/**
+ * Record the user's decision on a device authorization
+ * Returns false if it was already decided or has expired
+ */
+export async function decideDeviceCode(
+  store: OAuthStore,
+  userCode: string,
+  approved: boolean,
+  userId: string
+): Promise<boolean> {
+  const decided = await store.decideDeviceCode(userCode, approved ? 'approved' : 'denied', userId);
+  if (decided) {
+    log.info(approved ? 'Device authorization approved' : 'Device authorization denied', { userId });
+  }
+  return decided;
+}
+
+/**
+ * Record a poll of the token endpoint and return the device authorization
+ * as it was before it (see DeviceCodeStore.pollDeviceCode)
+ */
+export async function pollDeviceCode(store: OAuthStore, deviceCode: string): Promise<StoredDeviceCode | undefined> {
+  return store.pollDeviceCode(hashToken(deviceCode), Date.now());
+}
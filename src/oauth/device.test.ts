@@ -0,0 +1,137 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import express from 'express';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import { setupOAuth } from '../index.js';
+import { createMemoryStore } from '../storage/memory.js';
+import { DEVICE_CODE_GRANT_TYPE, decideDeviceCode } from './device-codes.js';
+
+describe('device authorization grant (memory store)', () => {
+  const store = createMemoryStore();
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    const app = express();
+    app.use(express.json());
+    app.use(express.urlencoded({ extended: false }));
+
+    server = app.listen(0);
+    baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+
+    const { ready } = setupOAuth(app, {
+      serverUrl: baseUrl,
+      database: store,
+      clientId: 'static-client',
+      clientSecret: 'static-secret',
+      sessionSecret: 'test-session-secret-with-enough-length',
+      rateLimit: { authorize: false, token: false, devicePoll: false, register: false },
+    });
+    await ready;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  afterAll(() => {
+    server.close();
+  });
+
+  const staticCredentials = { client_id: 'static-client', client_secret: 'static-secret' };
+
+  async function post(path: string, params: Record<string, string>): Promise<{ status: number; body: any }> {
+    const response = await fetch(`${baseUrl}${path}`, { method: 'POST', body: new URLSearchParams(params) });
+    return { status: response.status, body: await response.json() };
+  }
+
+  async function authorizeDevice(params: Record<string, string> = {}) {
+    const { status, body } = await post('/oauth/device_authorization', { ...staticCredentials, ...params });
+    expect(status).toBe(200);
+    return body;
+  }
+
+  function poll(deviceCode: string) {
+    return post('/oauth/token', { ...staticCredentials, grant_type: DEVICE_CODE_GRANT_TYPE, device_code: deviceCode });
+  }
+
+  it('issues a device code and user code', async () => {
+    const body = await authorizeDevice({ scope: 'mcp:tools:*' });
+
+    expect(body).toMatchObject({ verification_uri: `${baseUrl}/device`, expires_in: 600, interval: 5 });
+    expect(body.user_code).toMatch(/^[B-Z]{4}-[B-Z]{4}$/);
+    expect(body.verification_uri_complete).toBe(`${baseUrl}/device?user_code=${body.user_code}`);
+  });
+
+  it('rejects unsupported scopes and clients not registered for the grant', async () => {
+    const scoped = await post('/oauth/device_authorization', { ...staticCredentials, scope: 'admin' });
+    expect(scoped.body.error).toBe('invalid_scope');
+
+    const registration = await fetch(`${baseUrl}/oauth/register`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ redirect_uris: ['http://localhost:3000/callback'], token_endpoint_auth_method: 'none' }),
+    });
+    const client = await registration.json();
+    const unregistered = await post('/oauth/device_authorization', { client_id: client.client_id });
+    expect(unregistered.body.error).toBe('unauthorized_client');
+  });
+
+  it('answers authorization_pending, then slow_down when polling too fast', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const { device_code: deviceCode } = await authorizeDevice();
+
+    expect((await poll(deviceCode)).body.error).toBe('authorization_pending');
+    expect((await poll(deviceCode)).body.error).toBe('slow_down');
+
+    // The interval grew to 10 seconds, and grows again with every slow_down
+    vi.advanceTimersByTime(6 * 1000);
+    expect((await poll(deviceCode)).body.error).toBe('slow_down');
+    vi.advanceTimersByTime(16 * 1000);
+    expect((await poll(deviceCode)).body.error).toBe('authorization_pending');
+  });
+
+  it('issues tokens once after the user approved', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const { device_code: deviceCode, user_code: userCode } = await authorizeDevice({ scope: 'mcp:tools:*' });
+
+    expect(await decideDeviceCode(store, userCode.replace('-', ''), true, 'user')).toBe(true);
+    // A decision is final
+    expect(await decideDeviceCode(store, userCode.replace('-', ''), false, 'user')).toBe(false);
+
+    const approved = await poll(deviceCode);
+    expect(approved.status).toBe(200);
+    expect(approved.body).toMatchObject({ token_type: 'Bearer', scope: 'mcp:tools:*' });
+
+    vi.advanceTimersByTime(10 * 1000);
+    expect((await poll(deviceCode)).body.error).toBe('invalid_grant');
+  });
+
+  it('answers access_denied after the user denied, and expired_token after 10 minutes', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const denied = await authorizeDevice();
+    await decideDeviceCode(store, denied.user_code.replace('-', ''), false, 'user');
+    expect((await poll(denied.device_code)).body.error).toBe('access_denied');
+
+    const expired = await authorizeDevice();
+    vi.advanceTimersByTime(10 * 60 * 1000);
+    expect((await poll(expired.device_code)).body.error).toBe('expired_token');
+  });
+
+  it("rejects another client's device code", async () => {
+    const { device_code: deviceCode } = await authorizeDevice();
+    const registration = await fetch(`${baseUrl}/oauth/register`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ grant_types: [DEVICE_CODE_GRANT_TYPE], token_endpoint_auth_method: 'none' }),
+    });
+    const client = await registration.json();
+
+    const stolen = await post('/oauth/token', {
+      client_id: client.client_id,
+      grant_type: DEVICE_CODE_GRANT_TYPE,
+      device_code: deviceCode,
+    });
+    expect(stolen.body.error).toBe('invalid_grant');
+  });
+});
@@ -0,0 +1,281 @@
+/**
+ * Device Authorization Grant (RFC 8628)
+ *
+ * For clients without a browser that can receive a redirect (CLIs, servers).
+ *
+ * POST /oauth/device_authorization
+ *
+ * 1. Authenticate the client (public clients only need a known client_id)
+ * 2. Check the resource indicator against the configured resources (RFC 8707)
+ * 3. Issue a device_code (for polling the token endpoint) and a user_code
+ *
+ * GET /device
+ *
+ * - Not logged in → login form (back to the same URL afterwards)
+ * - No user_code → ask for the code shown on the device
+ * - user_code (typed in, or from verification_uri_complete) → ask the user
+ *   to confirm the client, code and scopes
+ *
+ * POST /device
+ *
+ * Handles the decision; the client then gets its tokens on the next poll
+ * (see the device_code grant in token.ts).
+ */
+
+import { randomBytes } from 'crypto';
+import type { Request, Response } from 'express';
+import { authenticateClient, readClientCredentials, setBasicChallenge } from './client-auth.js';
+import { getClient } from './clients.js';
+import { getUserById } from './users.js';
+import { renderLoginForm } from './login.js';
+import { saveGrant } from './grants.js';
+import { isSupportedScope, parseScope } from './scopes.js';
+import { getDefaultResource, resolveResource } from './resources.js';
+import {
+  DEVICE_CODE_GRANT_TYPE,
+  canUseDeviceCodes,
+  createDeviceCode,
+  decideDeviceCode,
+  formatUserCode,
+  getDeviceCodeByUserCode,
+} from './device-codes.js';
+import { logAuthEvent } from '../utils/audit-log.js';
+import { getLogger } from '../utils/logger.js';
+import type {
+  DeviceAuthorizationResponse,
+  OAuthConfig,
+  OAuthError,
+  OAuthStore,
+  User,
+} from '../types/index.js';
+
+const log = getLogger('device');
+
+const DEVICE_PATH = '/device';
+const CONFIRMATION_EXPIRATION_MS = 10 * 60 * 1000; // 10 minutes
+
+/**
+ * Send OAuth error response
+ */
+function sendError(res: Response, error: string, description?: string, status = 400): void {
+  const errorResponse: OAuthError = {
+    error,
+    error_description: description,
+  };
+
+  res.status(status).json(errorResponse);
+}
+
+/**
+ * Render the device page
+ */
+function renderDevicePage(
+  res: Response,
+  options: {
+    user: User;
+    userCode?: string;
+    confirmation?: { id: string; clientName: string; resource: string; scopes: string[] };
+    result?: 'approved' | 'denied';
+    error?: string;
+  }
+): void {
+  res.set('Cache-Control', 'no-store');
+  res.render('device', {
+    username: options.user.username,
+    userCode: options.userCode || '',
+    confirmation: options.confirmation || null,
+    result: options.result || null,
+    error: options.error || null,
+  });
+}
+
+/**
+ * Create device authorization handler
+ */
+export function createDeviceAuthorizationHandler(config: OAuthConfig, store: OAuthStore) {
+  const scopes = config.scopes || ['mcp:tools:*', 'mcp:resources:*', 'mcp:prompts:*'];
+
+  return async function handleDeviceAuthorization(req: Request, res: Response): Promise<void> {
+    try {
+      const { scope, resource } = req.body || {};
+
+      const credentials = readClientCredentials(req);
+      if ('error' in credentials) {
+        setBasicChallenge(req, res, config);
+        const status = credentials.error === 'invalid_client' ? 401 : 400;
+        sendError(res, credentials.error, credentials.errorDescription, status);
+        return;
+      }
+
+      log.debug('Request received', {
+        clientId: credentials.clientId,
+        clientAuthMethod: credentials.method,
+        scope,
+        resource,
+      });
+
+      if (scope !== undefined && typeof scope !== 'string') {
+        sendError(res, 'invalid_request', 'Invalid scope');
+        return;
+      }
+
+      if (scope && !isSupportedScope(scope, scopes)) {
+        sendError(res, 'invalid_scope', 'Unsupported scope');
+        return;
+      }
+
+      const clientAuth = await authenticateClient(store, config, credentials);
+      if (!clientAuth.authenticated) {
+        setBasicChallenge(req, res, config);
+        const status = credentials.method === 'client_secret_basic' ? 401 : 400;
+        sendError(res, clientAuth.error, clientAuth.errorDescription, status);
+        return;
+      }
+      const { clientId, client, isStaticClient } = clientAuth;
+
+      if (!canUseDeviceCodes(client, isStaticClient)) {
+        sendError(res, 'unauthorized_client', 'Client is not registered for the device_code grant');
+        return;
+      }
+
+      const tokenResource = resolveResource(config, resource);
+      if (!tokenResource) {
+        sendError(res, 'invalid_target', 'Unknown resource');
+        return;
+      }
+
+      const { deviceCode, stored } = await createDeviceCode(store, clientId, scope || scopes.join(' '), tokenResource);
+      const userCode = formatUserCode(stored.userCode);
+
+      await logAuthEvent(store, 'device_authorization', req, {
+        success: true,
+        clientId,
+        metadata: { scope: stored.scope, resource: tokenResource },
+      });
+
+      const response: DeviceAuthorizationResponse = {
+        device_code: deviceCode,
+        user_code: userCode,
+        verification_uri: `${config.serverUrl}${DEVICE_PATH}`,
+        verification_uri_complete: `${config.serverUrl}${DEVICE_PATH}?user_code=${userCode}`,
+        expires_in: Math.floor((stored.expiresAt - stored.createdAt) / 1000),
+        interval: stored.interval,
+      };
+
+      res.set('Cache-Control', 'no-store');
+      res.json(response);
+    } catch (error) {
+      log.error('Device authorization failed', { err: error });
+      sendError(res, 'server_error', 'Internal server error', 500);
+    }
+  };
+}
+
+/**
+ * Create device page handler (GET)
+ */
+export function createDevicePageHandler(config: OAuthConfig, store: OAuthStore) {
+  return async function handleDevicePage(req: Request, res: Response): Promise<void> {
+    try {
+      const user = req.session.userId ? await getUserById(store, req.session.userId) : undefined;
+      if (!user) {
+        renderLoginForm(res, { error: null, originalUrl: req.originalUrl });
+        return;
+      }
+
+      const userCode = typeof req.query.user_code === 'string' ? req.query.user_code.trim() : '';
+      if (!userCode) {
+        renderDevicePage(res, { user });
+        return;
+      }
+
+      const deviceCode = await getDeviceCodeByUserCode(store, userCode);
+      if (!deviceCode || deviceCode.status !== 'pending') {
+        log.info('Unknown or expired user code', { userId: user.id });
+        renderDevicePage(res, { user, userCode, error: 'Invalid or expired code. Check the code on your device.' });
+        return;
+      }
+
+      const client = deviceCode.clientId === config.clientId ? undefined : await getClient(store, deviceCode.clientId);
+
+      // Remember what the user is confirming server-side; the random ID doubles as CSRF token
+      const confirmationId = randomBytes(16).toString('base64url');
+      req.session.pendingDeviceConfirmation = {
+        id: confirmationId,
+        userCode: deviceCode.userCode,
+        createdAt: Date.now(),
+      };
+
+      renderDevicePage(res, {
+        user,
+        userCode: formatUserCode(deviceCode.userCode),
+        confirmation: {
+          id: confirmationId,
+          clientName: client?.client_name || deviceCode.clientId,
+          resource: deviceCode.resource || getDefaultResource(config),
+          scopes: parseScope(deviceCode.scope),
+        },
+      });
+    } catch (error) {
+      log.error('Device page failed', { err: error });
+      res.status(500).send('Internal server error');
+    }
+  };
+}
+
+/**
+ * Create device decision handler (POST)
+ */
+export function createDeviceDecisionHandler(config: OAuthConfig, store: OAuthStore) {
+  const scopes = config.scopes || ['mcp:tools:*', 'mcp:resources:*', 'mcp:prompts:*'];
+
+  return async function handleDeviceDecision(req: Request, res: Response): Promise<void> {
+    try {
+      const user = req.session.userId ? await getUserById(store, req.session.userId) : undefined;
+      if (!user) {
+        renderLoginForm(res, { error: null, originalUrl: DEVICE_PATH });
+        return;
+      }
+
+      const { confirmation_id, decision } = req.body || {};
+      const pending = req.session.pendingDeviceConfirmation;
+
+      if (
+        !pending ||
+        typeof confirmation_id !== 'string' ||
+        pending.id !== confirmation_id ||
+        Date.now() - pending.createdAt > CONFIRMATION_EXPIRATION_MS
+      ) {
+        renderDevicePage(res.status(400), { user, error: 'This request has expired. Enter the code again.' });
+        return;
+      }
+
+      // Single-use
+      delete req.session.pendingDeviceConfirmation;
+
+      const deviceCode = await getDeviceCodeByUserCode(store, pending.userCode);
+      const approved = decision === 'approve';
+      if (!deviceCode || !(await decideDeviceCode(store, pending.userCode, approved, user.id))) {
+        renderDevicePage(res.status(400), { user, error: 'Invalid or expired code. Check the code on your device.' });
+        return;
+      }
+
+      const scope = deviceCode.scope || scopes.join(' ');
+      if (approved && deviceCode.clientId !== config.clientId) {
+        const resource = deviceCode.resource || getDefaultResource(config);
+        await saveGrant(store, user.id, deviceCode.clientId, resource, scope);
+      }
+
+      await logAuthEvent(store, approved ? 'consent_granted' : 'consent_denied', req, {
+        success: approved,
+        clientId: deviceCode.clientId,
+        metadata: { userId: user.id, scope, grantType: DEVICE_CODE_GRANT_TYPE },
+      });
+
+      renderDevicePage(res, { user, result: approved ? 'approved' : 'denied' });
+    } catch (error) {
+      log.error('Device decision failed', { err: error });
+      res.status(500).send('Internal server error');
+    }
+  };
+}
@@ -0,0 +1,76 @@
+/**
+ * User Consent (Grant) Storage
+ *
+ * Remembers which scopes a user approved for a client and resource, so the
+ * consent screen is only shown once per client, resource and scope set.
+ */
+
+import type { OAuthStore, StoredGrant } from '../types/index.js';
+import { parseScope, hasScopes } from './scopes.js';
+import { getLogger } from '../utils/logger.js';
+
+const log = getLogger('grants');
+
+/**
+ * Get the grant a user gave a client for a resource
+ */
+export async function getGrant(
+  store: OAuthStore,
+  userId: string,
+  clientId: string,
+  resource: string
+): Promise<StoredGrant | undefined> {
+  try {
+    return await store.getGrant(userId, clientId, resource);
+  } catch (error) {
+    log.error('Failed to get grant', { err: error });
+    return undefined;
+  }
+}
+
+/**
+ * Check whether a user already approved every requested scope for a client
+ * and resource (consent for one MCP server doesn't cover another)
+ */
+export async function hasGrant(
+  store: OAuthStore,
+  userId: string,
+  clientId: string,
+  resource: string,
+  scope: string
+): Promise<boolean> {
+  const grant = await getGrant(store, userId, clientId, resource);
+  return Boolean(grant && hasScopes(parseScope(grant.scope), parseScope(scope)));
+}
+
+/**
+ * Record approved scopes (merged with any previously approved scopes)
+ */
+export async function saveGrant(
+  store: OAuthStore,
+  userId: string,
+  clientId: string,
+  resource: string,
+  scope: string
+): Promise<void> {
+  const existing = await getGrant(store, userId, clientId, resource);
+  const merged = Array.from(new Set([...parseScope(existing?.scope), ...parseScope(scope)]));
+
+  try {
+    await store.saveGrant({ userId, clientId, resource, scope: merged.join(' ') });
+
+    log.info('Consent recorded', { clientId, resource });
+  } catch (error) {
+    log.error('Failed to save grant', { err: error });
+    throw new Error('Failed to save grant');
+  }
+}
+
+/**
+ * Forget a user's consent for a client, for every resource
+ * (consent is asked again next time)
+ */
+export async function revokeGrant(store: OAuthStore, userId: string, clientId: string): Promise<void> {
+  await store.deleteGrant(userId, clientId);
+  log.info('Consent revoked', { clientId });
+}
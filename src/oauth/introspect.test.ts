@@ -0,0 +1,95 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import express from 'express';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import { setupOAuth } from '../index.js';
+import { createMemoryStore } from '../storage/memory.js';
+import { hashToken } from './tokens.js';
+
+describe('introspection endpoint (memory store)', () => {
+  const store = createMemoryStore();
+  let server: Server;
+  let baseUrl: string;
+  let client: { client_id: string; client_secret: string };
+
+  beforeAll(async () => {
+    const app = express();
+    app.use(express.json());
+    app.use(express.urlencoded({ extended: false }));
+
+    server = app.listen(0);
+    baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+
+    const { ready } = setupOAuth(app, {
+      serverUrl: baseUrl,
+      database: store,
+      clientId: 'static-client',
+      clientSecret: 'static-secret',
+      sessionSecret: 'test-session-secret-with-enough-length',
+      rateLimit: { register: false },
+    });
+    await ready;
+
+    const registration = await fetch(`${baseUrl}/oauth/register`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ redirect_uris: ['http://localhost:3000/callback'] }),
+    });
+    client = await registration.json();
+  });
+
+  afterAll(() => {
+    server.close();
+  });
+
+  async function saveAccessToken(token: string, clientId: string): Promise<void> {
+    await store.saveAccessToken(hashToken(token), {
+      clientId,
+      userId: 'user',
+      familyId: token,
+      scope: 'mcp:tools:*',
+      createdAt: Date.now(),
+      expiresAt: Date.now() + 60_000,
+    });
+  }
+
+  // Registered clients default to client_secret_basic, the static client to client_secret_post
+  async function introspect(token: string, clientId: string, clientSecret: string): Promise<any> {
+    const credentials = Buffer.from(`${clientId}:${clientSecret}`).toString('base64');
+    const isStaticClient = clientId === 'static-client';
+    const response = await fetch(`${baseUrl}/oauth/introspect`, {
+      method: 'POST',
+      headers: isStaticClient ? {} : { Authorization: `Basic ${credentials}` },
+      body: new URLSearchParams(
+        isStaticClient ? { token, client_id: clientId, client_secret: clientSecret } : { token }
+      ),
+    });
+    expect(response.status).toBe(200);
+    return response.json();
+  }
+
+  it("introspects the client's own token", async () => {
+    await saveAccessToken('own-token', client.client_id);
+
+    expect(await introspect('own-token', client.client_id, client.client_secret)).toMatchObject({
+      active: true,
+      client_id: client.client_id,
+      sub: 'user',
+    });
+  });
+
+  it("reports another client's token inactive", async () => {
+    await saveAccessToken('other-token', 'static-client');
+
+    expect(await introspect('other-token', client.client_id, client.client_secret)).toEqual({ active: false });
+  });
+
+  it('lets the static client introspect every token', async () => {
+    await saveAccessToken('registered-token', client.client_id);
+
+    expect(await introspect('registered-token', 'static-client', 'static-secret')).toMatchObject({
+      active: true,
+      client_id: client.client_id,
+    });
+  });
+});
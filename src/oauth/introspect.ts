@@ -0,0 +1,168 @@
+/**
+ * RFC 7662: OAuth 2.0 Token Introspection
+ *
+ * POST /oauth/introspect
+ *
+ * Lets resource servers check tokens issued by this server:
+ * 1. Authenticate the calling client (confidential clients only)
+ * 2. Look up the presented token (access or refresh, honoring token_type_hint)
+ * 3. Return { active: true, ... } for valid tokens, { active: false } otherwise
+ *
+ * Only resource servers (the static client and OAuthConfig.introspectionClients)
+ * see every token; other clients get { active: false } for tokens not issued to them.
+ */
+
+import type { Request, Response } from 'express';
+import { authenticateClient, readClientCredentials, setBasicChallenge } from './client-auth.js';
+import { getAccessToken, getRefreshToken } from './tokens.js';
+import { getDefaultResource } from './resources.js';
+import { getLogger } from '../utils/logger.js';
+import type { IntrospectionResponse, OAuthError, OAuthConfig, OAuthStore } from '../types/index.js';
+
+const log = getLogger('introspect');
+
+/**
+ * Send OAuth error response
+ */
+function sendError(res: Response, error: string, description?: string, status = 400): void {
+  const errorResponse: OAuthError = {
+    error,
+    error_description: description,
+  };
+
+  res.status(status).json(errorResponse);
+}
+
+/**
+ * Introspect an access token
+ */
+async function introspectAccessToken(
+  store: OAuthStore,
+  config: OAuthConfig,
+  token: string
+): Promise<IntrospectionResponse | null> {
+  const accessToken = await getAccessToken(store, token);
+  if (!accessToken) {
+    return null;
+  }
+
+  return {
+    active: true,
+    scope: accessToken.scope,
+    client_id: accessToken.clientId,
+    token_type: 'Bearer',
+    exp: Math.floor(accessToken.expiresAt / 1000),
+    iat: Math.floor(accessToken.createdAt / 1000),
+    sub: accessToken.userId || accessToken.clientId,
+    aud: accessToken.resource || getDefaultResource(config),
+    iss: config.serverUrl,
+  };
+}
+
+/**
+ * Introspect a refresh token (active = not rotated, revoked or expired)
+ */
+async function introspectRefreshToken(
+  store: OAuthStore,
+  config: OAuthConfig,
+  token: string
+): Promise<IntrospectionResponse | null> {
+  const refreshToken = await getRefreshToken(store, token);
+  if (
+    !refreshToken ||
+    refreshToken.usedAt ||
+    refreshToken.revokedAt ||
+    refreshToken.expiresAt <= Date.now()
+  ) {
+    return null;
+  }
+
+  return {
+    active: true,
+    scope: refreshToken.scope,
+    client_id: refreshToken.clientId,
+    token_type: 'refresh_token',
+    exp: Math.floor(refreshToken.expiresAt / 1000),
+    iat: Math.floor(refreshToken.createdAt / 1000),
+    sub: refreshToken.userId || refreshToken.clientId,
+    iss: config.serverUrl,
+  };
+}
+
+/**
+ * Check whether a client may introspect tokens issued to other clients
+ */
+function isResourceServer(config: OAuthConfig, clientId: string): boolean {
+  return clientId === config.clientId || Boolean(config.introspectionClients?.includes(clientId));
+}
+
+/**
+ * Create introspection handler
+ */
+export function createIntrospectHandler(config: OAuthConfig, store: OAuthStore) {
+  return async function handleIntrospect(req: Request, res: Response): Promise<void> {
+    try {
+      const { token, token_type_hint } = req.body;
+
+      // client_id / client_secret come from the body or an HTTP Basic header
+      const credentials = readClientCredentials(req);
+      if ('error' in credentials) {
+        setBasicChallenge(req, res, config);
+        const status = credentials.error === 'invalid_client' ? 401 : 400;
+        sendError(res, credentials.error, credentials.errorDescription, status);
+        return;
+      }
+
+      log.debug('Request received', {
+        hint: token_type_hint,
+        clientId: credentials.clientId,
+        clientAuthMethod: credentials.method,
+      });
+
+      // Only confidential clients may introspect tokens
+      const clientAuth = await authenticateClient(store, config, credentials);
+      if (!clientAuth.authenticated) {
+        setBasicChallenge(req, res, config);
+        sendError(res, clientAuth.error, clientAuth.errorDescription, 401);
+        return;
+      }
+
+      if (clientAuth.isPublicClient) {
+        sendError(res, 'invalid_client', 'Public clients cannot introspect tokens', 401);
+        return;
+      }
+
+      if (!token || typeof token !== 'string') {
+        sendError(res, 'invalid_request', 'Missing or invalid token');
+        return;
+      }
+
+      // The hint only decides which lookup runs first (RFC 7662 Section 2.1)
+      const lookups = token_type_hint === 'refresh_token'
+        ? [introspectRefreshToken, introspectAccessToken]
+        : [introspectAccessToken, introspectRefreshToken];
+
+      for (const lookup of lookups) {
+        const response = await lookup(store, config, token);
+        if (!response) {
+          continue;
+        }
+
+        // Don't tell a client about other clients' tokens
+        if (response.client_id !== clientAuth.clientId && !isResourceServer(config, clientAuth.clientId)) {
+          log.warn('Client introspected a token issued to another client', { clientId: clientAuth.clientId });
+          break;
+        }
+
+        res.set('Cache-Control', 'no-store').json(response);
+        return;
+      }
+
+      const inactive: IntrospectionResponse = { active: false };
+      res.set('Cache-Control', 'no-store').json(inactive);
+    } catch (error) {
+      log.error('Introspection failed', { err: error });
+      sendError(res, 'server_error', 'Internal server error', 500);
+    }
+  };
+}
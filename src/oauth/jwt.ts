@@ -0,0 +1,134 @@
+/**
+ * JWT Access Tokens (RFC 9068)
+ *
+ * Signs and verifies RS256 JSON Web Tokens using Node's crypto module.
+ * Verification only needs the public keys (JWKS), so resource servers
+ * can validate tokens offline.
+ */
+
+import { createPublicKey, sign, verify } from 'crypto';
+import type { JsonWebKey, KeyObject } from 'crypto';
+
+export interface JwtHeader {
+  alg: string;
+  typ?: string;
+  kid?: string;
+}
+
+export interface AccessTokenClaims {
+  iss: string;
+  aud: string | string[];
+  sub: string;
+  client_id: string;
+  scope?: string;
+  iat: number;
+  exp: number;
+  jti: string;
+}
+
+/**
+ * Public signing key as published at /.well-known/jwks
+ */
+export type PublicJwk = JsonWebKey & { kid: string; alg: string; use: string };
+
+function encodeSegment(value: object): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+function decodeSegment<T>(segment: string): T | null {
+  try {
+    return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8')) as T;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Sign claims as a compact JWT (RS256)
+ */
+export function signJwt(claims: AccessTokenClaims, privateKey: KeyObject, kid: string): string {
+  const header: JwtHeader = { alg: 'RS256', typ: 'at+jwt', kid };
+  const signingInput = `${encodeSegment(header)}.${encodeSegment(claims)}`;
+  const signature = sign('sha256', Buffer.from(signingInput), privateKey);
+
+  return `${signingInput}.${signature.toString('base64url')}`;
+}
+
+/**
+ * Check whether a bearer token looks like a JWT (three dot-separated segments)
+ */
+export function isJwt(token: string): boolean {
+  return token.split('.').length === 3;
+}
+
+/**
+ * Read the header of a JWT without verifying it
+ */
+export function decodeJwtHeader(token: string): JwtHeader | null {
+  const [headerSegment] = token.split('.');
+  return headerSegment ? decodeSegment<JwtHeader>(headerSegment) : null;
+}
+
+/**
+ * Verify a JWT access token against a set of public keys
+ *
+ * Checks signature, issuer, audience and expiry.
+ * Returns the claims if valid, null otherwise.
+ */
+export function verifyJwt(
+  token: string,
+  keys: PublicJwk[],
+  expected: { issuer: string; audience: string }
+): AccessTokenClaims | null {
+  const segments = token.split('.');
+  if (segments.length !== 3) {
+    return null;
+  }
+
+  const [headerSegment, payloadSegment, signatureSegment] = segments;
+  const header = decodeSegment<JwtHeader>(headerSegment);
+  if (!header || header.alg !== 'RS256' || !header.kid) {
+    return null;
+  }
+
+  const jwk = keys.find((key) => key.kid === header.kid);
+  if (!jwk) {
+    return null;
+  }
+
+  try {
+    const publicKey = createPublicKey({ key: jwk, format: 'jwk' });
+    const valid = verify(
+      'sha256',
+      Buffer.from(`${headerSegment}.${payloadSegment}`),
+      publicKey,
+      Buffer.from(signatureSegment, 'base64url')
+    );
+    if (!valid) {
+      return null;
+    }
+  } catch {
+    return null;
+  }
+
+  const claims = decodeSegment<AccessTokenClaims>(payloadSegment);
+  if (!claims) {
+    return null;
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  if (typeof claims.exp !== 'number' || claims.exp <= now) {
+    return null;
+  }
+
+  if (claims.iss !== expected.issuer) {
+    return null;
+  }
+
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+  if (!audiences.includes(expected.audience)) {
+    return null;
+  }
+
+  return claims;
+}
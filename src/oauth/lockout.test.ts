@@ -0,0 +1,114 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createMemoryStore } from '../storage/memory.js';
+import { clearLoginFailures, getLoginLockedUntil, recordLoginFailure, unlockLogin } from './lockout.js';
+import type { OAuthConfig } from '../types/index.js';
+
+const MINUTE = 60 * 1000;
+
+function testConfig(overrides: Partial<OAuthConfig> = {}): OAuthConfig {
+  return {
+    serverUrl: 'http://localhost',
+    database: createMemoryStore(),
+    clientId: 'client',
+    clientSecret: 'secret',
+    sessionSecret: 'test-session-secret-with-enough-length',
+    loginLockout: { maxAttempts: 3, maxAttemptsPerIp: 5, lockoutDuration: MINUTE, maxLockoutDuration: 4 * MINUTE },
+    ...overrides,
+  };
+}
+
+describe('login lockout', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  async function fail(store = createMemoryStore(), config = testConfig(), login = 'alice', ip = '10.0.0.1') {
+    return recordLoginFailure(store, config, login, ip);
+  }
+
+  it('locks an account after maxAttempts failures, doubling the lockout up to the maximum', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const store = createMemoryStore();
+    const config = testConfig();
+    const now = Date.now();
+
+    expect(await fail(store, config)).toBeUndefined();
+    expect(await fail(store, config)).toBeUndefined();
+    expect(await getLoginLockedUntil(store, config, 'alice', '10.0.0.1')).toBeUndefined();
+
+    expect(await fail(store, config)).toBe(now + MINUTE);
+    expect(await fail(store, config)).toBe(now + 2 * MINUTE);
+    expect(await fail(store, config)).toBe(now + 4 * MINUTE);
+    expect(await fail(store, config)).toBe(now + 4 * MINUTE);
+
+    // Another IP trying the same account is locked out too
+    expect(await getLoginLockedUntil(store, config, 'alice', '10.0.0.2')).toBe(now + 4 * MINUTE);
+
+    vi.advanceTimersByTime(4 * MINUTE);
+    expect(await getLoginLockedUntil(store, config, 'alice', '10.0.0.2')).toBeUndefined();
+  });
+
+  it('counts a username and the email of the same user together', async () => {
+    const store = createMemoryStore();
+    const config = testConfig();
+    await store.createUser({
+      id: 'user-1',
+      username: 'alice',
+      email: 'alice@example.com',
+      passwordHash: 'hash',
+      createdAt: Date.now(),
+    });
+
+    await fail(store, config, 'alice', '10.0.0.1');
+    await fail(store, config, 'ALICE@example.com', '10.0.0.2');
+    expect(await fail(store, config, 'alice@example.com', '10.0.0.3')).toBeDefined();
+    expect(await getLoginLockedUntil(store, config, 'alice', '10.0.0.4')).toBeDefined();
+  });
+
+  it('locks an IP address trying many accounts', async () => {
+    const store = createMemoryStore();
+    const config = testConfig();
+
+    for (const login of ['a', 'b', 'c', 'd']) {
+      expect(await fail(store, config, login)).toBeUndefined();
+    }
+    expect(await fail(store, config, 'e')).toBeDefined();
+
+    expect(await getLoginLockedUntil(store, config, 'f', '10.0.0.1')).toBeDefined();
+    expect(await getLoginLockedUntil(store, config, 'f', '10.0.0.2')).toBeUndefined();
+  });
+
+  it('resets the account after a successful login, but not the IP', async () => {
+    const store = createMemoryStore();
+    const config = testConfig({ loginLockout: { maxAttempts: 2, maxAttemptsPerIp: 3 } });
+
+    await fail(store, config);
+    await clearLoginFailures(store, 'alice');
+    expect(await fail(store, config)).toBeUndefined();
+
+    // Third failure from this IP in total
+    expect(await fail(store, config, 'bob')).toBeDefined();
+  });
+
+  it('unlocks accounts and IP addresses', async () => {
+    const store = createMemoryStore();
+    const config = testConfig();
+    for (let i = 0; i < 5; i++) {
+      await fail(store, config);
+    }
+    expect(await getLoginLockedUntil(store, config, 'alice', undefined)).toBeDefined();
+    expect(await getLoginLockedUntil(store, config, 'bob', '10.0.0.1')).toBeDefined();
+
+    await unlockLogin(store, { username: 'alice', ip: '10.0.0.1' });
+    expect(await getLoginLockedUntil(store, config, 'alice', '10.0.0.1')).toBeUndefined();
+  });
+
+  it('does nothing when disabled', async () => {
+    const store = createMemoryStore();
+    const config = testConfig({ loginLockout: false });
+    for (let i = 0; i < 10; i++) {
+      expect(await fail(store, config)).toBeUndefined();
+    }
+    expect(await getLoginLockedUntil(store, config, 'alice', '10.0.0.1')).toBeUndefined();
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * Login Lockout
+ *
+ * Slows down password guessing, on top of the per-IP rate limiter:
+ * - Failed logins are counted per account and per IP address, in the store
+ *   (so counts survive restarts and are shared between instances)
+ * - Once an account (or IP) reaches its limit it's locked, for a duration
+ *   that doubles with every further failure
+ * - Attempts during a lockout are rejected without checking the password
+ *   (and don't count as failures, so the lockout doesn't keep growing)
+ *
+ * Counting per account means a distributed attack from many IPs is still
+ * slowed down; counting per IP slows down one IP trying many accounts.
+ */
+
+import { getLogger } from '../utils/logger.js';
+import type { LoginLockoutConfig, OAuthConfig, OAuthStore } from '../types/index.js';
+
+const DEFAULT_MAX_ATTEMPTS = 5;
+const DEFAULT_MAX_ATTEMPTS_PER_IP = 20;
+const DEFAULT_LOCKOUT_DURATION = 60 * 1000; // 1 minute
+const DEFAULT_MAX_LOCKOUT_DURATION = 60 * 60 * 1000; // 1 hour
+const DEFAULT_FAILURE_WINDOW = 24 * 60 * 60 * 1000; // 24 hours
+
+const log = getLogger('lockout');
+
+/**
+ * Counter key for an account: the user ID if the login names a user
+ * (so username and email share one counter), otherwise the login itself
+ */
+async function accountKey(store: OAuthStore, login: string): Promise<string> {
+  const user = await store.findUserByLogin(login);
+  return user ? `user:${user.id}` : `login:${login.toLowerCase()}`;
+}
+
+function ipKey(ip: string): string {
+  return `ip:${ip}`;
+}
+
+/**
+ * Lockout settings, or undefined if lockout is disabled
+ */
+function getLockoutConfig(config: OAuthConfig): Required<LoginLockoutConfig> | undefined {
+  if (config.loginLockout === false) {
+    return undefined;
+  }
+
+  const lockout = config.loginLockout || {};
+  return {
+    maxAttempts: lockout.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+    maxAttemptsPerIp: lockout.maxAttemptsPerIp ?? DEFAULT_MAX_ATTEMPTS_PER_IP,
+    lockoutDuration: lockout.lockoutDuration ?? DEFAULT_LOCKOUT_DURATION,
+    maxLockoutDuration: lockout.maxLockoutDuration ?? DEFAULT_MAX_LOCKOUT_DURATION,
+    failureWindow: lockout.failureWindow ?? DEFAULT_FAILURE_WINDOW,
+  };
+}
+
+/**
+ * Get when the account or IP is locked until
+ * Returns undefined if neither is locked
+ */
+export async function getLoginLockedUntil(
+  store: OAuthStore,
+  config: OAuthConfig,
+  login: string,
+  ip: string | undefined
+): Promise<number | undefined> {
+  if (!getLockoutConfig(config)) {
+    return undefined;
+  }
+
+  const account = await accountKey(store, login);
+  const keys = ip ? [account, ipKey(ip)] : [account];
+  const lockouts = await Promise.all(keys.map((key) => store.getLoginLockout(key)));
+
+  const now = Date.now();
+  const lockedUntil = Math.max(0, ...lockouts.map((lockout) => lockout?.lockedUntil || 0));
+  return lockedUntil > now ? lockedUntil : undefined;
+}
+
+/**
+ * Count a failed login against the account and IP, locking them once
+ * they reach their limits
+ * Returns when the account or IP is now locked until (undefined if not locked)
+ */
+export async function recordLoginFailure(
+  store: OAuthStore,
+  config: OAuthConfig,
+  login: string,
+  ip: string | undefined
+): Promise<number | undefined> {
+  const lockout = getLockoutConfig(config);
+  if (!lockout) {
+    return undefined;
+  }
+
+  const now = Date.now();
+  const counters = [{ key: await accountKey(store, login), maxAttempts: lockout.maxAttempts }];
+  if (ip) {
+    counters.push({ key: ipKey(ip), maxAttempts: lockout.maxAttemptsPerIp });
+  }
+
+  let lockedUntil: number | undefined;
+  for (const { key, maxAttempts } of counters) {
+    const failures = await store.recordLoginFailure(key, now - lockout.failureWindow);
+    if (failures < maxAttempts) {
+      continue;
+    }
+
+    // Exponential backoff: 1x, 2x, 4x... the lockout duration, up to the maximum
+    const duration = Math.min(
+      lockout.lockoutDuration * 2 ** Math.min(failures - maxAttempts, 30),
+      lockout.maxLockoutDuration
+    );
+    await store.setLoginLockedUntil(key, now + duration);
+    log.warn('Login locked', { key, durationMs: duration, failures });
+
+    lockedUntil = Math.max(lockedUntil || 0, now + duration);
+  }
+
+  return lockedUntil;
+}
+
+/**
+ * Reset the account's failure count after a successful login
+ * (the IP's count is kept, so one valid account can't be used to reset it)
+ */
+export async function clearLoginFailures(store: OAuthStore, login: string): Promise<void> {
+  await store.clearLoginFailures(await accountKey(store, login));
+}
+
+/**
+ * Unlock an account and/or IP address (admin operation)
+ */
+export async function unlockLogin(store: OAuthStore, target: { username?: string; ip?: string }): Promise<void> {
+  if (target.username) {
+    await store.clearLoginFailures(await accountKey(store, target.username));
+    log.info('Account unlocked', { username: target.username });
+  }
+  if (target.ip) {
+    await store.clearLoginFailures(ipKey(target.ip));
+    log.info('IP unlocked', { ip: target.ip });
+  }
+}
+
+/**
+ * Message shown on the login page while locked
+ */
+export function formatLockoutMessage(lockedUntil: number): string {
+  const minutes = Math.max(1, Math.ceil((lockedUntil - Date.now()) / 60000));
+  return `Too many failed login attempts. Try again in ${minutes} minute${minutes === 1 ? '' : 's'}.`;
+}
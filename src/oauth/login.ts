@@ -4,33 +4,117 @@
  * POST /login
  *
  * Handles password verification:
- * 1. Extract password and original_url from form
- * 2. Verify password against bcrypt hash
- * 3. On success: set session cookie and redirect to original_url
- * 4. On failure: re-render login form with error
+ * 1. Extract username, password and original_url from form
+ * 2. Reject the attempt if the account or IP is locked out (see lockout.ts)
+ * 3. Verify credentials against the users table (bcrypt)
+ * 4. On success: regenerate the session ID, store user ID in session and
+ *    redirect to original_url
+ *    (users enrolled in TOTP are asked for a code first, see below)
+ * 5. On failure: count the failure and re-render login form with error
+ *
+ * POST /login/two-factor
+ *
+ * Second step for users enrolled in TOTP: checks the 6-digit code (or a
+ * recovery code) before the session is logged in. Wrong codes count
+ * towards the lockout, and too many send the user back to the password step.
+ *
+ * Single-user setup: a blank username signs in as the 'owner' account
+ * (kept in sync with OAuthConfig.passwordHash)
  */
 
 import type { Request, Response } from 'express';
-import type { Pool } from 'pg';
-import bcrypt from 'bcrypt';
-import type { OAuthConfig } from '../types/index.js';
+import type { OAuthConfig, OAuthStore, User } from '../types/index.js';
 import { logAuthEvent } from '../utils/audit-log.js';
+import { getLogger } from '../utils/logger.js';
+import { verifyUserCredentials, getUserById, OWNER_USERNAME } from './users.js';
+import { hasTotp, verifyTwoFactorCode } from './two-factor.js';
+import { recordSession } from './sessions.js';
+import {
+  getLoginLockedUntil,
+  recordLoginFailure,
+  clearLoginFailures,
+  formatLockoutMessage,
+} from './lockout.js';
+
+const log = getLogger('login');
+
+/**
+ * Render the login form
+ */
+export function renderLoginForm(
+  res: Response,
+  options: { error: string | null; originalUrl: string; username?: string }
+): void {
+  res.render('login', {
+    error: options.error,
+    originalUrl: options.originalUrl,
+    username: options.username || '',
+  });
+}
+
+const TWO_FACTOR_EXPIRATION_MS = 5 * 60 * 1000; // 5 minutes
+const MAX_TWO_FACTOR_ATTEMPTS = 5; // Per password step
+
+/**
+ * Render the TOTP code form (second login step)
+ */
+function renderTwoFactorForm(res: Response, options: { error: string | null }): void {
+  res.render('two-factor', {
+    error: options.error,
+  });
+}
+
+/**
+ * Log the user in and redirect to the original URL
+ */
+async function completeLogin(
+  req: Request,
+  res: Response,
+  config: OAuthConfig,
+  store: OAuthStore,
+  user: User,
+  originalUrl: string
+): Promise<void> {
+  await clearLoginFailures(store, user.username);
+
+  // New session ID on login, so a session ID planted before login
+  // (session fixation) is worthless
+  await new Promise<void>((resolve, reject) => {
+    req.session.regenerate((error) => (error ? reject(error) : resolve()));
+  });
+
+  // Credentials correct → remember user in session
+  req.session.userId = user.id;
+  await recordSession(store, config, req, user.id);
+
+  log.info('Authentication successful', { userId: user.id, redirectTo: originalUrl });
+
+  // Log successful login
+  await logAuthEvent(store, 'login_success', req, {
+    success: true,
+    metadata: { userId: user.id, username: user.username },
+  });
+
+  // Redirect to original authorization URL
+  res.redirect(originalUrl);
+}
 
 /**
  * Create login handler
  */
-export function createLoginHandler(config: OAuthConfig, pool: Pool) {
+export function createLoginHandler(config: OAuthConfig, store: OAuthStore) {
   return async function handleLogin(req: Request, res: Response): Promise<void> {
     try {
-      const { password, original_url } = req.body;
+      const { username, password, original_url } = req.body;
 
-      console.log('[OAuth Login] Login attempt received');
+      log.debug('Login attempt received');
 
       // Validate input
       if (!password || typeof password !== 'string') {
-        res.render('login', {
+        renderLoginForm(res, {
           error: 'Password is required',
           originalUrl: original_url || '/oauth/authorize',
+          username,
         });
         return;
       }
@@ -40,46 +124,171 @@ export function createLoginHandler(config: OAuthConfig, pool: Pool) {
         return;
       }
 
-      // Check if password hash is configured
-      if (!config.passwordHash) {
-        console.error('[OAuth Login] passwordHash not configured');
-        res.status(500).send('Server configuration error');
+      // Blank username → owner account (single-user setup)
+      let login = typeof username === 'string' ? username.trim() : '';
+      if (!login && config.passwordHash) {
+        login = OWNER_USERNAME;
+      }
+
+      if (!login) {
+        renderLoginForm(res, {
+          error: 'Username is required',
+          originalUrl: original_url,
+        });
+        return;
+      }
+
+      // Locked out → reject without checking the password
+      const ip = req.ip || req.socket.remoteAddress || undefined;
+      const lockedUntil = await getLoginLockedUntil(store, config, login, ip);
+
+      if (lockedUntil) {
+        log.warn('Login locked out', { lockedUntil: new Date(lockedUntil).toISOString() });
+
+        await logAuthEvent(store, 'login_failure', req, {
+          success: false,
+          errorMessage: 'Login locked out',
+          metadata: { username: login, lockedUntil: new Date(lockedUntil).toISOString() },
+        });
+
+        res.status(429);
+        renderLoginForm(res, {
+          error: formatLockoutMessage(lockedUntil),
+          originalUrl: original_url,
+          username,
+        });
         return;
       }
 
-      // Verify password using bcrypt
-      const passwordValid = await bcrypt.compare(password, config.passwordHash);
+      // Verify credentials using bcrypt
+      const user = await verifyUserCredentials(store, login, password);
 
-      if (!passwordValid) {
-        console.log('[OAuth Login] Invalid password');
+      if (!user) {
+        log.info('Invalid credentials');
 
         // Log failed login attempt
-        await logAuthEvent(pool, 'login_failure', req, {
+        await logAuthEvent(store, 'login_failure', req, {
           success: false,
-          errorMessage: 'Invalid password',
+          errorMessage: 'Invalid username or password',
+          metadata: { username: login },
         });
 
-        res.render('login', {
-          error: 'Invalid password',
+        const nowLockedUntil = await recordLoginFailure(store, config, login, ip);
+        if (nowLockedUntil) {
+          res.status(429);
+        }
+
+        renderLoginForm(res, {
+          error: nowLockedUntil ? formatLockoutMessage(nowLockedUntil) : 'Invalid username or password',
           originalUrl: original_url,
+          username,
+        });
+        return;
+      }
+
+      // Enrolled in TOTP → ask for a code before logging in
+      if (await hasTotp(store, user.id)) {
+        req.session.pendingTwoFactor = {
+          userId: user.id,
+          originalUrl: original_url,
+          attempts: 0,
+          createdAt: Date.now(),
+        };
+
+        log.debug('Password accepted, waiting for second factor', { userId: user.id });
+        renderTwoFactorForm(res, { error: null });
+        return;
+      }
+
+      await completeLogin(req, res, config, store, user, original_url);
+    } catch (error) {
+      log.error('Login failed', { err: error });
+      res.status(500).send('Internal server error');
+    }
+  };
+}
+
+/**
+ * Create two-factor login handler (second step)
+ */
+export function createTwoFactorLoginHandler(config: OAuthConfig, store: OAuthStore) {
+  return async function handleTwoFactorLogin(req: Request, res: Response): Promise<void> {
+    try {
+      const pending = req.session.pendingTwoFactor;
+      const { code } = req.body;
+
+      log.debug('Two-factor code received');
+
+      if (!pending || Date.now() - pending.createdAt > TWO_FACTOR_EXPIRATION_MS) {
+        delete req.session.pendingTwoFactor;
+        renderLoginForm(res, {
+          error: 'Your sign-in expired. Please sign in again.',
+          originalUrl: pending?.originalUrl || '/oauth/authorize',
         });
         return;
       }
 
-      // Password correct → set session cookie
-      req.session.authenticated = true;
+      const user = await getUserById(store, pending.userId);
+      if (!user) {
+        delete req.session.pendingTwoFactor;
+        renderLoginForm(res, { error: 'Please sign in again.', originalUrl: pending.originalUrl });
+        return;
+      }
+
+      // Locked out (e.g. by failures from another session) → back to the password step
+      const ip = req.ip || req.socket.remoteAddress || undefined;
+      const lockedUntil = await getLoginLockedUntil(store, config, user.username, ip);
+      if (lockedUntil) {
+        delete req.session.pendingTwoFactor;
+        res.status(429);
+        renderLoginForm(res, { error: formatLockoutMessage(lockedUntil), originalUrl: pending.originalUrl });
+        return;
+      }
+
+      const method = typeof code === 'string' && code
+        ? await verifyTwoFactorCode(store, config, user.id, code)
+        : undefined;
+
+      if (!method) {
+        log.info('Invalid two-factor code', { userId: pending.userId });
+
+        await logAuthEvent(store, 'two_factor_failure', req, {
+          success: false,
+          errorMessage: 'Invalid two-factor code',
+          metadata: { userId: user.id, username: user.username },
+        });
+
+        pending.attempts++;
+        const nowLockedUntil = await recordLoginFailure(store, config, user.username, ip);
+
+        if (nowLockedUntil || pending.attempts >= MAX_TWO_FACTOR_ATTEMPTS) {
+          delete req.session.pendingTwoFactor;
+          if (nowLockedUntil) {
+            res.status(429);
+          }
+          renderLoginForm(res, {
+            error: nowLockedUntil
+              ? formatLockoutMessage(nowLockedUntil)
+              : 'Too many invalid codes. Please sign in again.',
+            originalUrl: pending.originalUrl,
+          });
+          return;
+        }
+
+        renderTwoFactorForm(res, { error: 'Invalid code' });
+        return;
+      }
 
-      console.log('[OAuth Login] Authentication successful, redirecting to:', original_url);
+      delete req.session.pendingTwoFactor;
 
-      // Log successful login
-      await logAuthEvent(pool, 'login_success', req, {
+      await logAuthEvent(store, 'two_factor_success', req, {
         success: true,
+        metadata: { userId: user.id, username: user.username, method },
       });
 
-      // Redirect to original authorization URL
-      res.redirect(original_url);
+      await completeLogin(req, res, config, store, user, pending.originalUrl);
     } catch (error) {
-      console.error('[OAuth Login] Error:', error);
+      log.error('Two-factor login failed', { err: error });
       res.status(500).send('Internal server error');
     }
   };
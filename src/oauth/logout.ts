@@ -0,0 +1,62 @@
+/**
+ * Logout Handler
+ *
+ * POST /logout
+ *
+ * Destroys the browser session and clears its cookie. Tokens already issued
+ * to clients stay valid (revoke them with /oauth/revoke).
+ * With a return_to path the browser is redirected there, otherwise 204.
+ */
+
+import type { Request, Response } from 'express';
+import { endSession } from './sessions.js';
+import { logAuthEvent } from '../utils/audit-log.js';
+import { getLogger } from '../utils/logger.js';
+import type { OAuthConfig, OAuthStore } from '../types/index.js';
+
+const log = getLogger('logout');
+
+/**
+ * Only same-origin paths ('//host' and '/\host' would leave the site)
+ */
+function isLocalPath(value: unknown): value is string {
+  return typeof value === 'string' && value.startsWith('/') && !/^\/[/\\]/.test(value);
+}
+
+/**
+ * Create logout handler
+ */
+export function createLogoutHandler(config: OAuthConfig, store: OAuthStore) {
+  return async function handleLogout(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.session.userId;
+      const returnTo = req.body?.return_to;
+
+      log.debug('Logout request received', { userId });
+
+      if (userId) {
+        await endSession(store, req);
+
+        await logAuthEvent(store, 'logout', req, {
+          success: true,
+          metadata: { userId },
+        });
+      }
+
+      await new Promise<void>((resolve, reject) => {
+        req.session.destroy((error) => (error ? reject(error) : resolve()));
+      });
+      res.clearCookie(config.sessionName || 'mcp_session');
+
+      if (isLocalPath(returnTo)) {
+        res.redirect(303, returnTo);
+        return;
+      }
+
+      res.status(204).end();
+    } catch (error) {
+      log.error('Logout failed', { err: error });
+      res.status(500).send('Internal server error');
+    }
+  };
+}
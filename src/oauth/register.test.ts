@@ -0,0 +1,108 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import express from 'express';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import { setupOAuth } from '../index.js';
+import { createMemoryStore } from '../storage/memory.js';
+
+const REDIRECT_URI = 'http://localhost:3000/callback';
+
+describe('client configuration endpoint (memory store)', () => {
+  const store = createMemoryStore();
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    const app = express();
+    app.use(express.json());
+    app.use(express.urlencoded({ extended: false }));
+
+    server = app.listen(0);
+    baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+
+    const { ready } = setupOAuth(app, {
+      serverUrl: baseUrl,
+      database: store,
+      clientId: 'static-client',
+      clientSecret: 'static-secret',
+      sessionSecret: 'test-session-secret-with-enough-length',
+      rateLimit: { register: false },
+    });
+    await ready;
+  });
+
+  afterAll(() => {
+    server.close();
+  });
+
+  async function register(): Promise<any> {
+    const response = await fetch(`${baseUrl}/oauth/register`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ redirect_uris: [REDIRECT_URI] }),
+    });
+    expect(response.status).toBe(201);
+    return response.json();
+  }
+
+  function update(client: any, metadata: Record<string, unknown>): Promise<Response> {
+    return fetch(client.registration_client_uri, {
+      method: 'PUT',
+      headers: {
+        Authorization: `Bearer ${client.registration_access_token}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ client_id: client.client_id, redirect_uris: [REDIRECT_URI], ...metadata }),
+    });
+  }
+
+  it('updates redirect URIs and keeps the auth method', async () => {
+    const client = await register();
+    const response = await update(client, { redirect_uris: ['http://localhost:9000/callback'] });
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({
+      redirect_uris: ['http://localhost:9000/callback'],
+      token_endpoint_auth_method: client.token_endpoint_auth_method,
+    });
+  });
+
+  it('keeps the registration access token on reads and rotates it on updates', async () => {
+    const client = await register();
+    const read = () =>
+      fetch(client.registration_client_uri, {
+        headers: { Authorization: `Bearer ${client.registration_access_token}` },
+      });
+
+    // A lost read response doesn't lock the client out
+    expect((await read()).status).toBe(200);
+    const response = await read();
+    expect(response.status).toBe(200);
+    expect((await response.json()).registration_access_token).toBe(client.registration_access_token);
+
+    const updated = await update(client, {});
+    expect(updated.status).toBe(200);
+    expect((await updated.json()).registration_access_token).not.toBe(client.registration_access_token);
+    expect((await read()).status).toBe(401);
+  });
+
+  it('rejects switching a confidential client to a public one', async () => {
+    const client = await register();
+    const response = await update(client, { token_endpoint_auth_method: 'none' });
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toBe('invalid_client_metadata');
+    expect((await store.getClient(client.client_id))?.token_endpoint_auth_method).toBe(
+      client.token_endpoint_auth_method
+    );
+  });
+
+  it('checks grant types again on update', async () => {
+    const client = await register();
+    const response = await update(client, { grant_types: ['authorization_code', 'client_credentials'] });
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toBe('invalid_client_metadata');
+    expect((await store.getClient(client.client_id))?.grant_types).toEqual(['authorization_code']);
+  });
+});
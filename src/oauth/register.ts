@@ -5,17 +5,67 @@
  *
  * Allows clients to register themselves dynamically without pre-configuration.
  * This is required for Claude Code CLI to connect to the MCP server.
+ * Who may register is controlled by OAuthConfig.registration
+ * (see registration-policy.ts).
+ *
+ * RFC 7592: Client Configuration Endpoint
+ *
+ * GET/PUT/DELETE /oauth/register/:client_id
+ *
+ * Lets a client read, update or delete its own registration, authenticated
+ * with the registration_access_token it received. Every successful PUT
+ * returns a new registration_access_token (the previous one stops working);
+ * GET leaves it as is, so a lost response doesn't lock the client out.
+ * token_endpoint_auth_method can't be changed by an update.
  */
 
 import type { Request, Response } from 'express';
-import type { Pool } from 'pg';
-import { registerClient } from './clients.js';
+import {
+  registerClient,
+  getClient,
+  updateClient,
+  deleteClient,
+  generateRegistrationAccessToken,
+  verifyRegistrationAccessToken,
+  verifyClientSecret,
+} from './clients.js';
+import {
+  checkRegistrationAccess,
+  applyRegistrationPolicy,
+  checkRedirectUriAllowlist,
+  checkGrantTypes,
+  type RegistrationDenial,
+} from './registration-policy.js';
+import { DEVICE_CODE_GRANT_TYPE } from './device-codes.js';
+import { isSupportedScope } from './scopes.js';
+import { logAuthEvent } from '../utils/audit-log.js';
+import { getLogger } from '../utils/logger.js';
 import type {
   ClientRegistrationRequest,
   ClientRegistrationResponse,
+  OAuthConfig,
   OAuthError,
+  OAuthStore,
+  RegisteredClient,
 } from '../types/index.js';
 
+const log = getLogger('register');
+
+/**
+ * Client metadata a client controls (everything but its credentials)
+ */
+type ClientMetadata = Pick<
+  RegisteredClient,
+  | 'client_name'
+  | 'logo_uri'
+  | 'client_uri'
+  | 'redirect_uris'
+  | 'token_endpoint_auth_method'
+  | 'grant_types'
+  | 'response_types'
+  | 'scope'
+>;
+
 /**
  * Send OAuth error response (RFC 6749 format)
  */
@@ -28,132 +78,375 @@ function sendError(res: Response, error: string, description?: string, status =
   res.status(status).json(errorResponse);
 }
 
+/**
+ * Send a registration access control error
+ */
+function sendDenial(
+  config: OAuthConfig,
+  store: OAuthStore,
+  req: Request,
+  res: Response,
+  denial: RegistrationDenial
+): Promise<void> {
+  if (denial.status === 401) {
+    res.set('WWW-Authenticate', `Bearer realm="${config.serverUrl}", error="invalid_token"`);
+  }
+  sendError(res, denial.error, denial.errorDescription, denial.status);
+
+  return logAuthEvent(store, 'client_registration', req, {
+    success: false,
+    clientId: req.params.client_id,
+    errorMessage: denial.errorDescription,
+  });
+}
+
+/**
+ * Check that a value is a well-formed HTTPS URL
+ */
+function isHttpsUrl(value: unknown): boolean {
+  if (typeof value !== 'string') {
+    return false;
+  }
+  try {
+    return new URL(value).protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Apply RFC 7591 defaults and validate client metadata
+ * Returns the metadata to store, or the error to send
+ */
+function validateClientMetadata(
+  registrationRequest: ClientRegistrationRequest,
+  supportedScopes: string[]
+): ClientMetadata | OAuthError {
+  // Default values per RFC 7591 Section 2
+  const redirectUris = registrationRequest.redirect_uris || [];
+  const tokenEndpointAuthMethod =
+    registrationRequest.token_endpoint_auth_method || 'client_secret_basic';
+  const grantTypes = registrationRequest.grant_types || ['authorization_code'];
+  const responseTypes = registrationRequest.response_types || ['code'];
+
+  // Validation: redirect_uris is required for authorization_code grant
+  if (grantTypes.includes('authorization_code') && redirectUris.length === 0) {
+    return {
+      error: 'invalid_redirect_uri',
+      error_description: 'redirect_uris is required for authorization_code grant',
+    };
+  }
+
+  // Validate redirect URIs (must be HTTPS or localhost)
+  for (const uri of redirectUris) {
+    try {
+      const url = new URL(uri);
+      const isHttps = url.protocol === 'https:';
+      const isLocalhost =
+        url.hostname === 'localhost' || url.hostname === '127.0.0.1';
+
+      // Allow HTTPS or localhost (for development/testing)
+      if (!isHttps && !isLocalhost) {
+        return {
+          error: 'invalid_redirect_uri',
+          error_description: `Invalid redirect URI: ${uri}. Must use HTTPS or localhost.`,
+        };
+      }
+    } catch {
+      return {
+        error: 'invalid_redirect_uri',
+        error_description: `Malformed redirect URI: ${uri}`,
+      };
+    }
+  }
+
+  // Validate logo_uri / client_uri (shown on the consent screen)
+  if (registrationRequest.logo_uri !== undefined && !isHttpsUrl(registrationRequest.logo_uri)) {
+    return { error: 'invalid_client_metadata', error_description: 'logo_uri must be an HTTPS URL' };
+  }
+
+  if (registrationRequest.client_uri !== undefined && !isHttpsUrl(registrationRequest.client_uri)) {
+    return { error: 'invalid_client_metadata', error_description: 'client_uri must be an HTTPS URL' };
+  }
+
+  // Validate token_endpoint_auth_method
+  const supportedAuthMethods = ['client_secret_post', 'client_secret_basic', 'none'];
+  if (!supportedAuthMethods.includes(tokenEndpointAuthMethod)) {
+    return {
+      error: 'invalid_client_metadata',
+      error_description:
+        `Unsupported token_endpoint_auth_method: ${tokenEndpointAuthMethod}. ` +
+        `Supported: ${supportedAuthMethods.join(', ')}`,
+    };
+  }
+
+  // Validate grant_types
+  const supportedGrantTypes = ['authorization_code', 'refresh_token', 'client_credentials', DEVICE_CODE_GRANT_TYPE];
+  for (const grantType of grantTypes) {
+    if (!supportedGrantTypes.includes(grantType)) {
+      return {
+        error: 'invalid_client_metadata',
+        error_description: `Unsupported grant_type: ${grantType}. Supported: ${supportedGrantTypes.join(', ')}`,
+      };
+    }
+  }
+
+  // client_credentials is for confidential clients only (RFC 6749 Section 4.4)
+  if (grantTypes.includes('client_credentials') && tokenEndpointAuthMethod === 'none') {
+    return {
+      error: 'invalid_client_metadata',
+      error_description: 'client_credentials grant requires a client secret (token_endpoint_auth_method other than none)',
+    };
+  }
+
+  // Validate response_types
+  const supportedResponseTypes = ['code'];
+  for (const responseType of responseTypes) {
+    if (!supportedResponseTypes.includes(responseType)) {
+      return {
+        error: 'invalid_client_metadata',
+        error_description: `Unsupported response_type: ${responseType}. Supported: ${supportedResponseTypes.join(', ')}`,
+      };
+    }
+  }
+
+  // Validate scope (only the configured scopes, see scopes.ts)
+  const scope = registrationRequest.scope;
+  if (scope !== undefined && (typeof scope !== 'string' || !isSupportedScope(scope, supportedScopes))) {
+    return {
+      error: 'invalid_client_metadata',
+      error_description: `Unsupported scope. Supported: ${supportedScopes.join(' ')}`,
+    };
+  }
+
+  return {
+    client_name: registrationRequest.client_name,
+    logo_uri: registrationRequest.logo_uri,
+    client_uri: registrationRequest.client_uri,
+    redirect_uris: redirectUris,
+    token_endpoint_auth_method: tokenEndpointAuthMethod,
+    grant_types: grantTypes,
+    response_types: responseTypes,
+    scope: registrationRequest.scope,
+  };
+}
+
+/**
+ * Build client information response per RFC 7591 Section 3.2.1 / RFC 7592 Section 3
+ * The secret is only stored hashed, so it's only included when just issued
+ */
+function buildClientResponse(
+  config: OAuthConfig,
+  client: RegisteredClient,
+  registrationAccessToken: string,
+  clientSecret?: string
+): ClientRegistrationResponse {
+  return {
+    client_id: client.client_id,
+    client_secret: clientSecret,
+    client_id_issued_at: Math.floor(client.createdAt / 1000), // Unix timestamp in seconds
+    // Unix timestamp in seconds, 0 = never expires
+    client_secret_expires_at: client.clientSecretExpiresAt ? Math.floor(client.clientSecretExpiresAt / 1000) : 0,
+    registration_access_token: registrationAccessToken,
+    registration_client_uri: `${config.serverUrl}/oauth/register/${encodeURIComponent(client.client_id)}`,
+    client_name: client.client_name,
+    logo_uri: client.logo_uri,
+    client_uri: client.client_uri,
+    redirect_uris: client.redirect_uris,
+    token_endpoint_auth_method: client.token_endpoint_auth_method,
+    grant_types: client.grant_types,
+    response_types: client.response_types,
+    scope: client.scope,
+  };
+}
+
 /**
  * Create register handler
  */
-export function createRegisterHandler(pool: Pool) {
+export function createRegisterHandler(config: OAuthConfig, store: OAuthStore) {
+  const scopes = config.scopes || ['mcp:tools:*', 'mcp:resources:*', 'mcp:prompts:*'];
+
   return async function handleRegister(req: Request, res: Response): Promise<void> {
     try {
       const registrationRequest: ClientRegistrationRequest = req.body;
 
-      console.log('[OAuth Register] Registration request received:', {
-        client_name: registrationRequest.client_name,
-        redirect_uris: registrationRequest.redirect_uris,
-        grant_types: registrationRequest.grant_types,
+      log.debug('Registration request received', {
+        clientName: registrationRequest.client_name,
+        redirectUris: registrationRequest.redirect_uris,
+        grantTypes: registrationRequest.grant_types,
       });
 
-      // Default values per RFC 7591 Section 2
-      const redirectUris = registrationRequest.redirect_uris || [];
-      const tokenEndpointAuthMethod =
-        registrationRequest.token_endpoint_auth_method || 'client_secret_basic';
-      const grantTypes = registrationRequest.grant_types || ['authorization_code'];
-      const responseTypes = registrationRequest.response_types || ['code'];
-
-      // Validation: redirect_uris is required for authorization_code grant
-      if (grantTypes.includes('authorization_code') && redirectUris.length === 0) {
-        sendError(
-          res,
-          'invalid_redirect_uri',
-          'redirect_uris is required for authorization_code grant'
-        );
+      const denied = await checkRegistrationAccess(config, store, req);
+      if (denied) {
+        await sendDenial(config, store, req, res, denied);
         return;
       }
 
-      // Validate redirect URIs (must be HTTPS or localhost)
-      for (const uri of redirectUris) {
-        try {
-          const url = new URL(uri);
-          const isHttps = url.protocol === 'https:';
-          const isLocalhost =
-            url.hostname === 'localhost' || url.hostname === '127.0.0.1';
-
-          // Allow HTTPS or localhost (for development/testing)
-          if (!isHttps && !isLocalhost) {
-            sendError(
-              res,
-              'invalid_redirect_uri',
-              `Invalid redirect URI: ${uri}. Must use HTTPS or localhost.`
-            );
-            return;
-          }
-        } catch {
-          sendError(
-            res,
-            'invalid_redirect_uri',
-            `Malformed redirect URI: ${uri}`
-          );
-          return;
-        }
+      const decision = await applyRegistrationPolicy(config, req, {
+        operation: 'register',
+        metadata: registrationRequest,
+      });
+      if ('error' in decision) {
+        await sendDenial(config, store, req, res, decision);
+        return;
       }
 
-      // Validate token_endpoint_auth_method
-      const supportedAuthMethods = ['client_secret_post', 'client_secret_basic', 'none'];
-      if (!supportedAuthMethods.includes(tokenEndpointAuthMethod)) {
-        sendError(
-          res,
-          'invalid_client_metadata',
-          `Unsupported token_endpoint_auth_method: ${tokenEndpointAuthMethod}. ` +
-            `Supported: ${supportedAuthMethods.join(', ')}`
-        );
+      const metadata = validateClientMetadata(decision.metadata, scopes);
+      if ('error' in metadata) {
+        sendError(res, metadata.error, metadata.error_description);
         return;
       }
 
-      // Validate grant_types
-      const supportedGrantTypes = ['authorization_code', 'refresh_token'];
-      for (const grantType of grantTypes) {
-        if (!supportedGrantTypes.includes(grantType)) {
-          sendError(
-            res,
-            'invalid_client_metadata',
-            `Unsupported grant_type: ${grantType}. Supported: ${supportedGrantTypes.join(', ')}`
-          );
-          return;
-        }
+      const grantDenied = checkGrantTypes(config, metadata.grant_types);
+      if (grantDenied) {
+        await sendDenial(config, store, req, res, grantDenied);
+        return;
       }
 
-      // Validate response_types
-      const supportedResponseTypes = ['code'];
-      for (const responseType of responseTypes) {
-        if (!supportedResponseTypes.includes(responseType)) {
-          sendError(
-            res,
-            'invalid_client_metadata',
-            `Unsupported response_type: ${responseType}. Supported: ${supportedResponseTypes.join(', ')}`
-          );
-          return;
-        }
+      const notAllowed = checkRedirectUriAllowlist(config, metadata.redirect_uris);
+      if (notAllowed) {
+        await sendDenial(config, store, req, res, notAllowed);
+        return;
       }
 
       // Register the client
-      const client = await registerClient(
-        pool,
-        registrationRequest.client_name,
-        redirectUris,
-        tokenEndpointAuthMethod,
-        grantTypes,
-        responseTypes,
-        registrationRequest.scope
+      const { client, clientSecret, registrationAccessToken } = await registerClient(
+        store,
+        metadata.client_name,
+        metadata.redirect_uris,
+        metadata.token_endpoint_auth_method,
+        metadata.grant_types,
+        metadata.response_types,
+        metadata.scope,
+        {
+          logoUri: metadata.logo_uri,
+          clientUri: metadata.client_uri,
+        },
+        config.clientSecretMaxAge
       );
 
-      // Build response per RFC 7591 Section 3.2.1
-      const response: ClientRegistrationResponse = {
-        client_id: client.client_id,
-        client_secret: client.client_secret,
-        client_id_issued_at: Math.floor(client.createdAt / 1000), // Unix timestamp in seconds
-        client_secret_expires_at: 0, // 0 = never expires
-        client_name: client.client_name,
-        redirect_uris: client.redirect_uris,
-        token_endpoint_auth_method: client.token_endpoint_auth_method,
-        grant_types: client.grant_types,
-        response_types: client.response_types,
-        scope: client.scope,
-      };
+      await logAuthEvent(store, 'client_registration', req, {
+        success: true,
+        clientId: client.client_id,
+        metadata: { client_name: client.client_name, redirect_uris: client.redirect_uris },
+      });
+
+      res.status(201).json(buildClientResponse(config, client, registrationAccessToken, clientSecret));
+    } catch (error) {
+      log.error('Registration failed', { err: error });
+      sendError(res, 'server_error', 'Internal server error', 500);
+    }
+  };
+}
+
+/**
+ * Create client configuration handler (GET, PUT and DELETE)
+ */
+export function createClientConfigurationHandler(config: OAuthConfig, store: OAuthStore) {
+  const scopes = config.scopes || ['mcp:tools:*', 'mcp:resources:*', 'mcp:prompts:*'];
+
+  return async function handleClientConfiguration(req: Request, res: Response): Promise<void> {
+    try {
+      const clientId = req.params.client_id;
+      const authHeader = req.headers.authorization;
+
+      log.debug('Client configuration request received', { method: req.method, clientId });
+
+      // Unknown clients and bad tokens get the same answer (RFC 7592 Section 2.1)
+      const token = authHeader?.startsWith('Bearer ') ? authHeader.slice(7) : undefined;
+      const client = token ? await getClient(store, clientId) : undefined;
+      if (!token || !client || !verifyRegistrationAccessToken(client, token)) {
+        res.set('WWW-Authenticate', `Bearer realm="${config.serverUrl}", error="invalid_token"`);
+        sendError(res, 'invalid_token', 'Invalid registration access token', 401);
+        return;
+      }
+
+      res.set('Cache-Control', 'no-store');
+
+      if (req.method === 'DELETE') {
+        await deleteClient(store, client.client_id);
+        res.status(204).end();
+        return;
+      }
+
+      if (req.method === 'GET') {
+        res.json(buildClientResponse(config, client, token));
+        return;
+      }
+
+      let updated: RegisteredClient = client;
+
+      if (req.method === 'PUT') {
+        const updateRequest: ClientRegistrationRequest & { client_id?: string; client_secret?: string } =
+          req.body || {};
+
+        // RFC 7592 Section 2.2: the body carries the full metadata, credentials must match
+        if (updateRequest.client_id !== client.client_id) {
+          sendError(res, 'invalid_request', 'client_id must match the registered client');
+          return;
+        }
+
+        if (
+          updateRequest.client_secret !== undefined &&
+          (typeof updateRequest.client_secret !== 'string' || !verifyClientSecret(client, updateRequest.client_secret))
+        ) {
+          sendError(res, 'invalid_request', 'client_secret must match the registered client');
+          return;
+        }
+
+        // Updates go through the same policy, so an allowed client can't
+        // switch to redirect URIs it couldn't have registered with
+        const { client_id: _clientId, client_secret: _clientSecret, ...requestedMetadata } = updateRequest;
+        const decision = await applyRegistrationPolicy(config, req, {
+          operation: 'update',
+          metadata: requestedMetadata,
+          clientId: client.client_id,
+        });
+        if ('error' in decision) {
+          await sendDenial(config, store, req, res, decision);
+          return;
+        }
+
+        // The auth method is fixed at registration: switching a confidential client
+        // to 'none' would let anyone holding its client_id act as it
+        const authMethod = decision.metadata.token_endpoint_auth_method;
+        if (authMethod !== undefined && authMethod !== client.token_endpoint_auth_method) {
+          sendError(res, 'invalid_client_metadata', 'token_endpoint_auth_method cannot be changed');
+          return;
+        }
+
+        // Grant types are checked like at registration, against the fixed auth method
+        const metadata = validateClientMetadata(
+          { ...decision.metadata, token_endpoint_auth_method: client.token_endpoint_auth_method },
+          scopes
+        );
+        if ('error' in metadata) {
+          sendError(res, metadata.error, metadata.error_description);
+          return;
+        }
+
+        const grantDenied = checkGrantTypes(config, metadata.grant_types);
+        if (grantDenied) {
+          await sendDenial(config, store, req, res, grantDenied);
+          return;
+        }
+
+        const notAllowed = checkRedirectUriAllowlist(config, metadata.redirect_uris);
+        if (notAllowed) {
+          await sendDenial(config, store, req, res, notAllowed);
+          return;
+        }
+
+        updated = { ...client, ...metadata };
+      }
 
-      console.log('[OAuth Register] Client registered successfully:', client.client_id);
+      const registrationAccessToken = generateRegistrationAccessToken();
+      updated = { ...updated, registrationAccessTokenHash: registrationAccessToken.hash };
+      await updateClient(store, updated);
 
-      res.status(201).json(response);
+      res.json(buildClientResponse(config, updated, registrationAccessToken.token));
     } catch (error) {
-      console.error('[OAuth Register] Error:', error);
+      log.error('Client configuration request failed', { err: error });
       sendError(res, 'server_error', 'Internal server error', 500);
     }
   };
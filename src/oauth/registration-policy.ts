@@ -0,0 +1,189 @@
+/**
+ * Dynamic Client Registration Access Control
+ *
+ * Decides who may register (or update) clients, per OAuthConfig.registration:
+ * 1. Initial access token (RFC 7591 Section 3) in 'initial_access_token' mode
+ * 2. Cap on the number of dynamically registered clients
+ * 3. Custom policy hook (allow, deny or modify the metadata)
+ * 4. redirect_uri allowlist in 'allowlist' mode (checked after defaults
+ *    are applied, so a policy can't sneak in an unlisted URI)
+ * 5. client_credentials grant only for operator-provisioned clients
+ *    ('initial_access_token' mode, or registration.clientCredentials)
+ */
+
+import { createHash, timingSafeEqual } from 'crypto';
+import type { Request } from 'express';
+import type {
+  ClientRegistrationRequest,
+  OAuthConfig,
+  OAuthStore,
+  RegistrationPolicyRequest,
+} from '../types/index.js';
+
+export interface RegistrationDenial {
+  status: number;
+  error: string;
+  errorDescription: string;
+}
+
+/**
+ * Compare two strings in constant time (hashed first so lengths match)
+ */
+function constantTimeEquals(a: string, b: string): boolean {
+  return timingSafeEqual(
+    createHash('sha256').update(a).digest(),
+    createHash('sha256').update(b).digest()
+  );
+}
+
+/**
+ * Check a redirect URI against an allowlist pattern
+ * '*' matches any run of characters except '/', '?', '#' and '@'
+ */
+function matchesRedirectPattern(uri: string, pattern: string | RegExp): boolean {
+  if (pattern instanceof RegExp) {
+    return pattern.test(uri);
+  }
+  if (!pattern.includes('*')) {
+    return uri === pattern;
+  }
+
+  const source = pattern
+    .split('*')
+    .map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+    .join('[^/?#@]*');
+  return new RegExp(`^${source}$`).test(uri);
+}
+
+/**
+ * Check whether a new client may be registered at all
+ * (initial access token and client cap; POST /oauth/register only)
+ */
+export async function checkRegistrationAccess(
+  config: OAuthConfig,
+  store: OAuthStore,
+  req: Request
+): Promise<RegistrationDenial | undefined> {
+  const registration = config.registration || {};
+
+  if (registration.mode === 'initial_access_token') {
+    const authHeader = req.headers.authorization;
+    const token = authHeader?.startsWith('Bearer ') ? authHeader.slice(7) : undefined;
+    const validTokens = registration.initialAccessTokens || [];
+
+    // Check every configured token so timing doesn't reveal which one matched
+    let valid = false;
+    for (const validToken of validTokens) {
+      if (token && constantTimeEquals(token, validToken)) {
+        valid = true;
+      }
+    }
+
+    if (!valid) {
+      return {
+        status: 401,
+        error: 'invalid_token',
+        errorDescription: token ? 'Invalid initial access token' : 'Initial access token required',
+      };
+    }
+  }
+
+  if (registration.maxClients !== undefined) {
+    const count = await store.countClients();
+    if (count >= registration.maxClients) {
+      return {
+        status: 403,
+        error: 'access_denied',
+        errorDescription: 'Client registration limit reached',
+      };
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Run the custom registration policy, if any
+ * Returns the metadata to register, or why the request was denied
+ */
+export async function applyRegistrationPolicy(
+  config: OAuthConfig,
+  req: Request,
+  request: Omit<RegistrationPolicyRequest, 'ip' | 'userAgent'>
+): Promise<{ metadata: ClientRegistrationRequest } | RegistrationDenial> {
+  const policy = config.registration?.policy;
+  if (!policy) {
+    return { metadata: request.metadata };
+  }
+
+  const decision = await policy({
+    ...request,
+    ip: req.ip || req.socket.remoteAddress || undefined,
+    userAgent: req.headers['user-agent'],
+  });
+
+  switch (decision.action) {
+    case 'allow':
+      return { metadata: request.metadata };
+    case 'modify':
+      return { metadata: decision.metadata };
+    case 'deny':
+      return {
+        status: 403,
+        error: decision.error || 'access_denied',
+        errorDescription: decision.errorDescription || 'Client registration denied by policy',
+      };
+    default:
+      throw new Error(`Unknown registration policy action: ${(decision as { action: unknown }).action}`);
+  }
+}
+
+/**
+ * Whether dynamically registered clients may use the client_credentials grant
+ * Its tokens act without a user, so by default only clients registered with an
+ * initial access token (handed out by the operator) get it
+ */
+export function allowsClientCredentials(config: OAuthConfig): boolean {
+  const registration = config.registration || {};
+  return registration.clientCredentials ?? registration.mode === 'initial_access_token';
+}
+
+/**
+ * Check the requested grant types (at registration and on every update)
+ */
+export function checkGrantTypes(config: OAuthConfig, grantTypes: string[]): RegistrationDenial | undefined {
+  if (grantTypes.includes('client_credentials') && !allowsClientCredentials(config)) {
+    return {
+      status: 400,
+      error: 'invalid_client_metadata',
+      errorDescription: 'client_credentials grant is not available to dynamically registered clients',
+    };
+  }
+  return undefined;
+}
+
+/**
+ * Check redirect URIs against the allowlist ('allowlist' mode only)
+ */
+export function checkRedirectUriAllowlist(
+  config: OAuthConfig,
+  redirectUris: string[]
+): RegistrationDenial | undefined {
+  const registration = config.registration || {};
+  if (registration.mode !== 'allowlist') {
+    return undefined;
+  }
+
+  const patterns = registration.allowedRedirectUris || [];
+  for (const uri of redirectUris) {
+    if (!patterns.some((pattern) => matchesRedirectPattern(uri, pattern))) {
+      return {
+        status: 400,
+        error: 'invalid_redirect_uri',
+        errorDescription: `Redirect URI not allowed: ${uri}`,
+      };
+    }
+  }
+
+  return undefined;
+}
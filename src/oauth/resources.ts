@@ -0,0 +1,61 @@
+/**
+ * Resource Indicators (RFC 8707)
+ *
+ * Clients name the MCP server they want a token for with the `resource`
+ * parameter. It must be one of OAuthConfig.resources (default: serverUrl);
+ * requests without one get the first. Every token is bound to a single
+ * resource (its audience), and createAuthMiddleware only accepts tokens
+ * issued for its own.
+ */
+
+import type { OAuthConfig } from '../types/index.js';
+
+/**
+ * Canonical form of a resource URL, or null if it isn't one
+ * Absolute, without a fragment (RFC 8707 Section 2); a trailing slash doesn't matter
+ */
+export function normalizeResource(resource: string): string | null {
+  let url: URL;
+  try {
+    url = new URL(resource);
+  } catch {
+    return null;
+  }
+
+  if (resource.includes('#')) {
+    return null;
+  }
+  return url.href.replace(/\/$/, '');
+}
+
+/**
+ * Resources tokens can be issued for (canonical form)
+ */
+export function getResources(config: OAuthConfig): string[] {
+  const resources = (config.resources || [config.serverUrl]).map(normalizeResource);
+  return resources.filter((resource): resource is string => resource !== null);
+}
+
+/**
+ * Resource for requests (and tokens issued before resource indicators) without one
+ */
+export function getDefaultResource(config: OAuthConfig): string {
+  return getResources(config)[0] || config.serverUrl;
+}
+
+/**
+ * Resolve the resource parameter of a request
+ * Returns the default resource if none was given, null if it isn't one of
+ * the configured resources (or several were given)
+ */
+export function resolveResource(config: OAuthConfig, resource: unknown): string | null {
+  if (resource === undefined || resource === '') {
+    return getDefaultResource(config);
+  }
+  if (typeof resource !== 'string') {
+    return null;
+  }
+
+  const normalized = normalizeResource(resource);
+  return normalized && getResources(config).includes(normalized) ? normalized : null;
+}
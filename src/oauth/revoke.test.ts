@@ -0,0 +1,82 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import express from 'express';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import { setupOAuth } from '../index.js';
+import { createMemoryStore } from '../storage/memory.js';
+import { hashToken } from './tokens.js';
+
+describe('revocation endpoint (memory store)', () => {
+  const store = createMemoryStore();
+  let server: Server;
+  let baseUrl: string;
+  let client: { client_id: string; client_secret: string };
+
+  beforeAll(async () => {
+    const app = express();
+    app.use(express.json());
+    app.use(express.urlencoded({ extended: false }));
+
+    server = app.listen(0);
+    baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+
+    const { ready } = setupOAuth(app, {
+      serverUrl: baseUrl,
+      database: store,
+      clientId: 'static-client',
+      clientSecret: 'static-secret',
+      sessionSecret: 'test-session-secret-with-enough-length',
+      rateLimit: { register: false },
+    });
+    await ready;
+
+    const registration = await fetch(`${baseUrl}/oauth/register`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ redirect_uris: ['http://localhost:3000/callback'] }),
+    });
+    client = await registration.json();
+  });
+
+  afterAll(() => {
+    server.close();
+  });
+
+  async function saveAccessToken(token: string, clientId: string): Promise<void> {
+    await store.saveAccessToken(hashToken(token), {
+      clientId,
+      familyId: token,
+      createdAt: Date.now(),
+      expiresAt: Date.now() + 60_000,
+    });
+  }
+
+  function revoke(token: string): Promise<Response> {
+    const credentials = Buffer.from(`${client.client_id}:${client.client_secret}`).toString('base64');
+    return fetch(`${baseUrl}/oauth/revoke`, {
+      method: 'POST',
+      headers: { Authorization: `Basic ${credentials}` },
+      body: new URLSearchParams({ token }),
+    });
+  }
+
+  it("revokes the client's own token", async () => {
+    await saveAccessToken('own-token', client.client_id);
+
+    expect((await revoke('own-token')).status).toBe(200);
+    expect(await store.getAccessToken(hashToken('own-token'))).toBeNull();
+  });
+
+  it("answers 200 for another client's token without revoking it", async () => {
+    await saveAccessToken('other-token', 'static-client');
+
+    const response = await revoke('other-token');
+    expect(response.status).toBe(200);
+    expect(await response.text()).toBe('');
+    expect(await store.getAccessToken(hashToken('other-token'))).not.toBeNull();
+  });
+
+  it('answers 200 for unknown tokens', async () => {
+    expect((await revoke('unknown-token')).status).toBe(200);
+  });
+});
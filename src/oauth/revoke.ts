@@ -0,0 +1,136 @@
+/**
+ * RFC 7009: OAuth 2.0 Token Revocation
+ *
+ * POST /oauth/revoke
+ *
+ * Lets clients invalidate tokens they were issued:
+ * 1. Authenticate the calling client
+ * 2. Look up the presented token (access or refresh, honoring token_type_hint)
+ * 3. Verify the token was issued to the calling client (other clients' tokens
+ *    are left alone)
+ * 4. Revoke it (a refresh token revokes its whole token family)
+ *
+ * Unknown, already-invalid and other clients' tokens still return 200,
+ * per RFC 7009 Section 2.2.
+ */
+
+import type { Request, Response } from 'express';
+import { authenticateClient, readClientCredentials, setBasicChallenge } from './client-auth.js';
+import {
+  getAccessToken,
+  getRefreshToken,
+  revokeAccessToken,
+  revokeTokenFamily,
+} from './tokens.js';
+import { logAuthEvent } from '../utils/audit-log.js';
+import { getLogger } from '../utils/logger.js';
+import type { OAuthError, OAuthConfig, OAuthStore } from '../types/index.js';
+
+const log = getLogger('revoke');
+
+/**
+ * Send OAuth error response
+ */
+function sendError(res: Response, error: string, description?: string, status = 400): void {
+  const errorResponse: OAuthError = {
+    error,
+    error_description: description,
+  };
+
+  res.status(status).json(errorResponse);
+}
+
+/**
+ * Create revocation handler
+ */
+export function createRevokeHandler(config: OAuthConfig, store: OAuthStore) {
+  return async function handleRevoke(req: Request, res: Response): Promise<void> {
+    try {
+      const { token, token_type_hint } = req.body;
+
+      // client_id / client_secret come from the body or an HTTP Basic header
+      const credentials = readClientCredentials(req);
+      if ('error' in credentials) {
+        setBasicChallenge(req, res, config);
+        const status = credentials.error === 'invalid_client' ? 401 : 400;
+        sendError(res, credentials.error, credentials.errorDescription, status);
+        return;
+      }
+
+      log.debug('Request received', {
+        hint: token_type_hint,
+        clientId: credentials.clientId,
+        clientAuthMethod: credentials.method,
+      });
+
+      const clientAuth = await authenticateClient(store, config, credentials);
+      if (!clientAuth.authenticated) {
+        setBasicChallenge(req, res, config);
+        sendError(res, clientAuth.error, clientAuth.errorDescription, 401);
+        return;
+      }
+
+      if (!token || typeof token !== 'string') {
+        sendError(res, 'invalid_request', 'Missing or invalid token');
+        return;
+      }
+
+      // The hint only decides which lookup runs first (RFC 7009 Section 2.1)
+      let accessToken = null;
+      let refreshToken = null;
+      if (token_type_hint === 'refresh_token') {
+        refreshToken = await getRefreshToken(store, token);
+        if (!refreshToken) {
+          accessToken = await getAccessToken(store, token);
+        }
+      } else {
+        accessToken = await getAccessToken(store, token);
+        if (!accessToken) {
+          refreshToken = await getRefreshToken(store, token);
+        }
+      }
+
+      // Another client's token is left alone and answered like an unknown one,
+      // so the response doesn't reveal that it exists (RFC 7009 Section 2.2)
+      const owner = (accessToken || refreshToken)?.clientId;
+      if (owner && owner !== clientAuth.clientId) {
+        log.warn('Client tried to revoke a token issued to another client', { clientId: clientAuth.clientId });
+
+        await logAuthEvent(store, 'token_revocation', req, {
+          success: false,
+          clientId: clientAuth.clientId,
+          errorMessage: 'Token was not issued to this client',
+        });
+
+        accessToken = null;
+        refreshToken = null;
+      }
+
+      if (accessToken) {
+        await revokeAccessToken(store, token);
+
+        await logAuthEvent(store, 'token_revocation', req, {
+          success: true,
+          clientId: clientAuth.clientId,
+          metadata: { tokenType: 'access_token' },
+        });
+      } else if (refreshToken) {
+        // Revoking a refresh token also revokes the access tokens of the same grant
+        await revokeTokenFamily(store, refreshToken.familyId);
+
+        await logAuthEvent(store, 'token_revocation', req, {
+          success: true,
+          clientId: clientAuth.clientId,
+          metadata: { tokenType: 'refresh_token', familyId: refreshToken.familyId },
+        });
+      } else {
+        log.debug('Token not found or already invalid');
+      }
+
+      res.set('Cache-Control', 'no-store').status(200).end();
+    } catch (error) {
+      log.error('Revocation failed', { err: error });
+      sendError(res, 'server_error', 'Internal server error', 500);
+    }
+  };
+}
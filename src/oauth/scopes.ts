@@ -0,0 +1,72 @@
+/**
+ * OAuth Scope Utilities
+ *
+ * Scopes are space-separated strings (RFC 6749 Section 3.3).
+ * A granted scope ending in '*' covers every scope with that prefix,
+ * e.g. 'mcp:tools:*' satisfies 'mcp:tools:call'.
+ *
+ * Only scopes covered by OAuthConfig.scopes can be requested or honoured,
+ * so a wildcard never reaches beyond the configured set ('*' is refused
+ * unless '*' itself is configured).
+ */
+
+import type { AuthInfo } from '../types/index.js';
+
+/**
+ * Split a scope string into individual scopes
+ */
+export function parseScope(scope: string | undefined): string[] {
+  return (scope || '').split(' ').filter(Boolean);
+}
+
+/**
+ * Check whether a single granted scope satisfies a required scope
+ */
+export function scopeSatisfies(granted: string, required: string): boolean {
+  if (granted === required) {
+    return true;
+  }
+
+  if (granted.endsWith('*')) {
+    return required.startsWith(granted.slice(0, -1));
+  }
+
+  return false;
+}
+
+/**
+ * Check whether a set of granted scopes satisfies every required scope
+ */
+export function hasScopes(granted: string[], required: string[]): boolean {
+  return required.every((scope) => granted.some((g) => scopeSatisfies(g, scope)));
+}
+
+/**
+ * Check whether an authenticated request was granted a scope
+ * (for gating individual MCP tools inside a handler)
+ */
+export function hasScope(auth: AuthInfo | undefined, scope: string): boolean {
+  return Boolean(auth && hasScopes(auth.scopes, [scope]));
+}
+
+/**
+ * Check that every requested scope is covered by the supported scopes
+ */
+export function isSupportedScope(requested: string, supported: string[]): boolean {
+  return hasScopes(supported, parseScope(requested));
+}
+
+/**
+ * Drop granted scopes the supported scopes don't cover
+ * (e.g. a '*' granted before requested scopes were checked)
+ */
+export function filterSupportedScopes(granted: string[], supported: string[]): string[] {
+  return granted.filter((scope) => hasScopes(supported, [scope]));
+}
+
+/**
+ * Check that every requested scope was part of the original grant
+ */
+export function isScopeSubset(requested: string, granted: string): boolean {
+  return hasScopes(parseScope(granted), parseScope(requested));
+}
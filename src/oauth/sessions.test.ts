@@ -0,0 +1,51 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { Request } from 'express';
+import { createMemoryStore } from '../storage/memory.js';
+import { getSessionId, revokeSession, touchSession } from './sessions.js';
+
+function sessionRequest(sessionID: string): Request {
+  return { sessionID, session: { userId: 'user' } } as unknown as Request;
+}
+
+describe('touchSession', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  async function trackedStore(req: Request) {
+    const store = createMemoryStore();
+    const now = Date.now();
+    await store.saveUserSession({
+      id: getSessionId(req),
+      userId: 'user',
+      createdAt: now,
+      lastSeenAt: now,
+      expiresAt: now + 60 * 60 * 1000,
+    });
+    const touch = vi.spyOn(store, 'touchUserSession');
+    return { store, touch };
+  }
+
+  it('writes the last-seen time at most once a minute', async () => {
+    vi.useFakeTimers();
+    const req = sessionRequest('throttled');
+    const { store, touch } = await trackedStore(req);
+
+    expect(await touchSession(store, req)).toBe(true);
+    expect(await touchSession(store, req)).toBe(true);
+    expect(touch).toHaveBeenCalledTimes(1);
+
+    vi.advanceTimersByTime(61 * 1000);
+    expect(await touchSession(store, req)).toBe(true);
+    expect(touch).toHaveBeenCalledTimes(2);
+  });
+
+  it('notices a revoked session right away', async () => {
+    const req = sessionRequest('revoked');
+    const { store } = await trackedStore(req);
+
+    expect(await touchSession(store, req)).toBe(true);
+    await revokeSession(store, getSessionId(req));
+    expect(await touchSession(store, req)).toBe(false);
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * Login Session Tracking
+ *
+ * Every successful login records a UserSession (IP, user agent, created and
+ * last-seen times), keyed by a hash of the express-session ID. Revoking
+ * deletes the record; the session tracking middleware then logs that
+ * browser out on its next request (on other instances, within a minute).
+ */
+
+import type { Request } from 'express';
+import { hashToken } from './tokens.js';
+import { getLogger } from '../utils/logger.js';
+import type { OAuthConfig, OAuthStore, UserSession } from '../types/index.js';
+
+const log = getLogger('sessions');
+
+const DEFAULT_SESSION_MAX_AGE = 30 * 24 * 60 * 60 * 1000; // 30 days (matches the session cookie)
+const TOUCH_INTERVAL_MS = 60 * 1000; // 1 minute
+const MAX_TOUCHED_SESSIONS = 10000;
+
+// Sessions this process recently marked as seen, by session ID
+const touchedSessions = new Map<string, { userId: string; touchedAt: number }>();
+
+/**
+ * Public ID of the request's session
+ */
+export function getSessionId(req: Request): string {
+  return hashToken(req.sessionID);
+}
+
+/**
+ * Record a new login session for the request's (freshly regenerated) session
+ */
+export async function recordSession(
+  store: OAuthStore,
+  config: OAuthConfig,
+  req: Request,
+  userId: string
+): Promise<void> {
+  const now = Date.now();
+
+  await store.saveUserSession({
+    id: getSessionId(req),
+    userId,
+    ip: req.ip || req.socket.remoteAddress || undefined,
+    userAgent: req.headers['user-agent'],
+    createdAt: now,
+    lastSeenAt: now,
+    expiresAt: now + (config.sessionMaxAge || DEFAULT_SESSION_MAX_AGE),
+  });
+
+  // Opportunistic cleanup, logins are rare enough
+  await store.deleteExpiredUserSessions();
+}
+
+/**
+ * Mark the request's session as seen
+ * Returns false if it was revoked or has expired. Written at most once a
+ * minute per session, not on every request
+ */
+export async function touchSession(store: OAuthStore, req: Request): Promise<boolean> {
+  const id = getSessionId(req);
+  const now = Date.now();
+
+  const touched = touchedSessions.get(id);
+  if (touched && now - touched.touchedAt < TOUCH_INTERVAL_MS) {
+    return true;
+  }
+
+  const active = await store.touchUserSession(id, now);
+  if (!active) {
+    touchedSessions.delete(id);
+    return false;
+  }
+
+  if (touchedSessions.size >= MAX_TOUCHED_SESSIONS) {
+    for (const [key, value] of touchedSessions) {
+      if (now - value.touchedAt >= TOUCH_INTERVAL_MS) {
+        touchedSessions.delete(key);
+      }
+    }
+  }
+  touchedSessions.set(id, { userId: req.session.userId as string, touchedAt: now });
+  return true;
+}
+
+/**
+ * Forget the request's session (logout)
+ */
+export async function endSession(store: OAuthStore, req: Request): Promise<void> {
+  const id = getSessionId(req);
+  touchedSessions.delete(id);
+  await store.deleteUserSession(id);
+}
+
+/**
+ * List a user's active sessions (every user's if userId is omitted),
+ * most recently seen first
+ */
+export async function listUserSessions(store: OAuthStore, userId?: string): Promise<UserSession[]> {
+  return store.listUserSessions(userId);
+}
+
+/**
+ * Revoke one session by its ID
+ */
+export async function revokeSession(store: OAuthStore, sessionId: string): Promise<boolean> {
+  touchedSessions.delete(sessionId);
+  const revoked = await store.deleteUserSession(sessionId);
+  log.info('Session revoked', { sessionId: sessionId.slice(0, 8) });
+  return revoked;
+}
+
+/**
+ * Revoke every session of a user
+ * Returns the number of sessions revoked
+ */
+export async function revokeUserSessions(store: OAuthStore, userId: string): Promise<number> {
+  for (const [id, touched] of touchedSessions) {
+    if (touched.userId === userId) {
+      touchedSessions.delete(id);
+    }
+  }
+  const revoked = await store.deleteUserSessions(userId);
+  log.info('User sessions revoked', { userId, count: revoked });
+  return revoked;
+}
@@ -0,0 +1,105 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { randomUUID } from 'crypto';
+import { createSigningKeyManager, getSigningKeyManager } from './signing-keys.js';
+import { signJwt, verifyJwt } from './jwt.js';
+import { createMemoryStore } from '../storage/memory.js';
+import { withAuditSinks } from '../utils/audit-sinks.js';
+import type { OAuthConfig, OAuthStore } from '../types/index.js';
+
+const DAY = 24 * 60 * 60 * 1000;
+const EXPECTED = { issuer: 'http://localhost', audience: 'http://localhost' };
+
+function testConfig(store: OAuthStore, overrides: Partial<OAuthConfig> = {}): OAuthConfig {
+  return {
+    serverUrl: 'http://localhost',
+    database: store,
+    clientId: 'client',
+    clientSecret: 'secret',
+    sessionSecret: 'test-session-secret-with-enough-length',
+    ...overrides,
+  };
+}
+
+function claims() {
+  const now = Math.floor(Date.now() / 1000);
+  return {
+    iss: 'http://localhost',
+    aud: 'http://localhost',
+    sub: 'user',
+    client_id: 'client',
+    scope: 'mcp:tools:*',
+    iat: now,
+    exp: now + 3600,
+    jti: randomUUID(),
+  };
+}
+
+describe('getSigningKeyManager', () => {
+  it('shares one manager between a store and its audit sink wrapper', async () => {
+    const store = createMemoryStore();
+    const config = testConfig(store);
+
+    const manager = getSigningKeyManager(withAuditSinks(store, []), config);
+    expect(getSigningKeyManager(store, config)).toBe(manager);
+
+    const activeKey = await manager.getActiveKey();
+    const publicKeys = await getSigningKeyManager(store, config).getPublicKeys();
+    expect(publicKeys.map((key) => key.kid)).toEqual([activeKey.kid]);
+  });
+});
+
+describe('createSigningKeyManager', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('signs tokens that verify against the published keys', async () => {
+    const store = createMemoryStore();
+    const manager = createSigningKeyManager(store, testConfig(store));
+    const { kid, privateKey } = await manager.getActiveKey();
+    const token = signJwt(claims(), privateKey, kid);
+
+    expect(verifyJwt(token, await manager.getPublicKeys(), EXPECTED)).toMatchObject({ sub: 'user' });
+    expect(verifyJwt(token, await manager.getPublicKeys(), { ...EXPECTED, audience: 'other' })).toBeNull();
+    expect(verifyJwt(`${token}x`, await manager.getPublicKeys(), EXPECTED)).toBeNull();
+  });
+
+  it('publishes a new key before signing with it', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const store = createMemoryStore();
+    const config = testConfig(store, { signingKeyRotationInterval: 30 * DAY });
+    const signer = createSigningKeyManager(store, config);
+    const verifier = createSigningKeyManager(store, config);
+
+    const first = await signer.getActiveKey();
+    expect((await verifier.getPublicKeys()).map((key) => key.kid)).toEqual([first.kid]);
+
+    // Shortly before the interval ends the next key is generated, but the old one keeps signing
+    vi.advanceTimersByTime(30 * DAY - 5 * 60 * 1000);
+    expect((await signer.getActiveKey()).kid).toBe(first.kid);
+    const published = (await verifier.getPublicKeys()).map((key) => key.kid);
+    expect(published).toHaveLength(2);
+
+    // Once every cache has picked it up, the new key signs and the old one stays published
+    vi.advanceTimersByTime(10 * 60 * 1000);
+    const second = await signer.getActiveKey();
+    expect(second.kid).not.toBe(first.kid);
+    expect(published).toContain(second.kid);
+    expect((await verifier.getPublicKeys()).map((key) => key.kid)).toContain(first.kid);
+  });
+
+  it('encrypts keys with signingKeySecret instead of sessionSecret', async () => {
+    const store = createMemoryStore();
+    const signingKeySecret = 'signing-key-secret';
+    const { kid } = await createSigningKeyManager(store, testConfig(store, { signingKeySecret })).getActiveKey();
+
+    // sessionSecret can change without losing the key
+    const rotated = createSigningKeyManager(
+      store,
+      testConfig(store, { signingKeySecret, sessionSecret: 'another-session-secret-of-some-length' })
+    );
+    expect((await rotated.getActiveKey()).kid).toBe(kid);
+
+    await expect(createSigningKeyManager(store, testConfig(store)).getActiveKey()).rejects.toThrow();
+  });
+});
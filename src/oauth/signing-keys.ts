@@ -0,0 +1,230 @@
+/**
+ * JWT Signing Key Storage & Rotation
+ *
+ * Stores RSA signing keys in the shared store so every instance signs with
+ * the same key. Private keys are encrypted with signingKeySecret (default:
+ * the session secret).
+ *
+ * Rotation:
+ * - A key signs tokens until it is older than the rotation interval. The next
+ *   key is generated ahead of time, on a signing request (once: concurrent
+ *   requests wait for the same rotation), and only published at first: it
+ *   starts signing once every instance's and verifier's key cache has had
+ *   time to pick it up
+ * - Retired keys stay published at /.well-known/jwks for an overlap window,
+ *   so tokens signed just before rotation keep verifying
+ * - Keys older than rotation interval + overlap are deleted
+ */
+
+import { generateKeyPair, createPrivateKey, randomBytes } from 'crypto';
+import { promisify } from 'util';
+import { getLogger } from '../utils/logger.js';
+import { unwrapStore } from '../utils/audit-sinks.js';
+import type { KeyObject } from 'crypto';
+import type { PublicJwk } from './jwt.js';
+import type { OAuthConfig, OAuthStore, StoredSigningKey } from '../types/index.js';
+
+const log = getLogger('keys');
+
+const generateKeyPairAsync = promisify(generateKeyPair);
+
+export const DEFAULT_SIGNING_KEY_ROTATION_INTERVAL = 30 * 24 * 60 * 60 * 1000; // 30 days
+export const DEFAULT_SIGNING_KEY_OVERLAP = 24 * 60 * 60 * 1000; // 1 day
+
+const KEY_CACHE_TTL_MS = 5 * 60 * 1000; // Pick up keys rotated by other instances
+const MIN_REFRESH_INTERVAL_MS = 30 * 1000; // Unknown kid → refetch at most every 30s
+const KEY_PUBLISH_DELAY_MS = 2 * KEY_CACHE_TTL_MS; // New keys are published this long before signing
+
+/**
+ * Source of public keys used to verify JWT access tokens
+ */
+export interface PublicKeySource {
+  /** Get published keys (forceRefresh bypasses the cache, rate-limited) */
+  getPublicKeys(forceRefresh?: boolean): Promise<PublicJwk[]>;
+}
+
+export interface SigningKeyManager extends PublicKeySource {
+  /** Get the key currently used for signing (rotates if due) */
+  getActiveKey(): Promise<{ kid: string; privateKey: KeyObject }>;
+}
+
+/**
+ * Create a signing key manager backed by the store
+ */
+export function createSigningKeyManager(store: OAuthStore, config: OAuthConfig): SigningKeyManager {
+  const rotationInterval = config.signingKeyRotationInterval || DEFAULT_SIGNING_KEY_ROTATION_INTERVAL;
+  // Retired keys must outlive every token they signed
+  const overlap = Math.max(
+    config.signingKeyOverlap || DEFAULT_SIGNING_KEY_OVERLAP,
+    config.accessTokenMaxAge || 0
+  );
+
+  // Never longer than half an interval, so short test intervals still rotate
+  const publishDelay = Math.min(KEY_PUBLISH_DELAY_MS, rotationInterval / 2);
+  const encryptionSecret = config.signingKeySecret || config.sessionSecret;
+
+  let cachedKeys: StoredSigningKey[] = [];
+  let loadedAt = 0;
+  let activeKey: { kid: string; privateKey: KeyObject } | undefined;
+  let rotation: Promise<StoredSigningKey[]> | undefined;
+
+  async function loadKeys(): Promise<StoredSigningKey[]> {
+    cachedKeys = await store.listSigningKeys(Date.now() - rotationInterval - overlap);
+    loadedAt = Date.now();
+
+    return cachedKeys;
+  }
+
+  async function getKeys(forceRefresh = false): Promise<StoredSigningKey[]> {
+    const age = Date.now() - loadedAt;
+    if (age > KEY_CACHE_TTL_MS || (forceRefresh && age > MIN_REFRESH_INTERVAL_MS)) {
+      return loadKeys();
+    }
+    return cachedKeys;
+  }
+
+  /**
+   * Whether the next key should be generated (newest first)
+   */
+  function isDue(keys: StoredSigningKey[]): boolean {
+    return !keys[0] || Date.now() - keys[0].createdAt >= rotationInterval - publishDelay;
+  }
+
+  /**
+   * Newest key published for long enough to sign with
+   * (the only one there is right after the very first key was generated)
+   */
+  function signingKey(keys: StoredSigningKey[]): StoredSigningKey {
+    return keys.find((key) => Date.now() - key.createdAt >= publishDelay) || keys[keys.length - 1];
+  }
+
+  async function rotate(): Promise<void> {
+    const kid = randomBytes(8).toString('hex');
+    // Off the event loop: RSA key generation takes a while
+    const { publicKey, privateKey } = await generateKeyPairAsync('rsa', { modulusLength: 2048 });
+
+    const encryptedPrivateKey = privateKey.export({
+      type: 'pkcs8',
+      format: 'pem',
+      cipher: 'aes-256-cbc',
+      passphrase: encryptionSecret,
+    }) as string;
+
+    const publicJwk: PublicJwk = {
+      ...publicKey.export({ format: 'jwk' }),
+      kid,
+      alg: 'RS256',
+      use: 'sig',
+    };
+
+    await store.saveSigningKey({ kid, encryptedPrivateKey, publicJwk, createdAt: Date.now() });
+
+    // Prune keys that are no longer published
+    await store.deleteSigningKeys(Date.now() - rotationInterval - overlap);
+
+    log.info('Signing key rotated', { kid });
+  }
+
+  /**
+   * Rotate unless another instance already has; concurrent callers share one rotation
+   */
+  function rotateOnce(): Promise<StoredSigningKey[]> {
+    rotation =
+      rotation ||
+      (async () => {
+        if (isDue(await loadKeys())) {
+          await rotate();
+        }
+        return loadKeys();
+      })().finally(() => {
+        rotation = undefined;
+      });
+
+    return rotation;
+  }
+
+  return {
+    async getActiveKey() {
+      let keys = await getKeys();
+
+      if (isDue(keys)) {
+        keys = await rotateOnce();
+      }
+
+      const current = signingKey(keys);
+      if (!activeKey || activeKey.kid !== current.kid) {
+        activeKey = {
+          kid: current.kid,
+          privateKey: createPrivateKey({
+            key: current.encryptedPrivateKey,
+            format: 'pem',
+            passphrase: encryptionSecret,
+          }),
+        };
+      }
+
+      return activeKey;
+    },
+
+    async getPublicKeys(forceRefresh = false) {
+      try {
+        const keys = await getKeys(forceRefresh);
+        return keys.map((key) => key.publicJwk);
+      } catch (error) {
+        log.error('Failed to load signing keys', { err: error });
+        return cachedKeys.map((key) => key.publicJwk);
+      }
+    },
+  };
+}
+
+const managers = new WeakMap<OAuthStore, SigningKeyManager>();
+
+/**
+ * Get the shared signing key manager for a store
+ * (setupOAuth and createAuthMiddleware share one key cache, even when
+ * setupOAuth wraps the store for auditSinks)
+ */
+export function getSigningKeyManager(store: OAuthStore, config: OAuthConfig): SigningKeyManager {
+  const backend = unwrapStore(store);
+  let manager = managers.get(backend);
+  if (!manager) {
+    manager = createSigningKeyManager(backend, config);
+    managers.set(backend, manager);
+  }
+  return manager;
+}
+
+/**
+ * Create a public key source that fetches a remote JWKS document
+ * Used by resource servers that don't share the authorization server's database
+ */
+export function createRemoteJwks(jwksUri: string): PublicKeySource {
+  let cachedKeys: PublicJwk[] = [];
+  let loadedAt = 0;
+
+  return {
+    async getPublicKeys(forceRefresh = false) {
+      const age = Date.now() - loadedAt;
+      if (age <= KEY_CACHE_TTL_MS && !(forceRefresh && age > MIN_REFRESH_INTERVAL_MS)) {
+        return cachedKeys;
+      }
+
+      try {
+        const response = await fetch(jwksUri);
+        if (!response.ok) {
+          throw new Error(`JWKS request failed with status ${response.status}`);
+        }
+        const body = (await response.json()) as { keys?: PublicJwk[] };
+        cachedKeys = body.keys || [];
+        loadedAt = Date.now();
+      } catch (error) {
+        log.error('Failed to fetch JWKS', { err: error });
+        // Keep serving cached keys, retry after the minimum refresh interval
+        loadedAt = Date.now() - KEY_CACHE_TTL_MS + MIN_REFRESH_INTERVAL_MS;
+      }
+
+      return cachedKeys;
+    },
+  };
+}
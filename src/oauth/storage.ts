@@ -1,12 +1,14 @@
 /**
- * PostgreSQL Authorization Code Storage
+ * Authorization Code Storage
  *
- * Stores authorization codes with 10-minute TTL in database
+ * Stores authorization codes with 10-minute TTL
  */
 
 import { randomBytes } from 'crypto';
-import type { Pool } from 'pg';
-import type { StoredAuthCode } from '../types/index.js';
+import { getLogger } from '../utils/logger.js';
+import type { OAuthStore, StoredAuthCode } from '../types/index.js';
+
+const log = getLogger('storage');
 
 const CODE_EXPIRATION_MS = 10 * 60 * 1000; // 10 minutes
 
@@ -18,80 +20,75 @@ export function generateAuthCode(): string {
 }
 
 /**
- * Store an authorization code with metadata in database
+ * Store an authorization code with metadata
  */
 export async function storeAuthCode(
-  pool: Pool,
+  store: OAuthStore,
   clientId: string,
   redirectUri: string,
   codeChallenge: string,
   codeChallengeMethod: string,
-  scope?: string
+  scope?: string,
+  userId?: string,
+  resource?: string
 ): Promise<string> {
   const code = generateAuthCode();
-  const expiresAt = new Date(Date.now() + CODE_EXPIRATION_MS);
+  const now = Date.now();
 
   try {
-    await pool.query(
-      `INSERT INTO authorization_codes
-        (code, client_id, redirect_uri, code_challenge, code_challenge_method, scope, expires_at)
-       VALUES ($1, $2, $3, $4, $5, $6, $7)`,
-      [code, clientId, redirectUri, codeChallenge, codeChallengeMethod, scope, expiresAt]
-    );
+    await store.saveAuthCode({
+      code,
+      clientId,
+      redirectUri,
+      codeChallenge,
+      codeChallengeMethod,
+      scope,
+      resource,
+      userId,
+      createdAt: now,
+      expiresAt: now + CODE_EXPIRATION_MS,
+    });
 
-    console.log('[OAuth Storage] Authorization code stored in database');
+    log.debug('Authorization code stored');
     return code;
   } catch (error) {
-    console.error('[OAuth Storage] Failed to store authorization code:', error);
+    log.error('Failed to store authorization code', { err: error });
     throw new Error('Failed to store authorization code');
   }
 }
 
 /**
- * Retrieve an authorization code from database
+ * Retrieve an authorization code
  * Returns null if code doesn't exist or is expired
  */
-export async function getAuthCode(pool: Pool, code: string): Promise<StoredAuthCode | null> {
+export async function getAuthCode(store: OAuthStore, code: string): Promise<StoredAuthCode | null> {
   try {
-    const result = await pool.query(
-      `SELECT * FROM authorization_codes
-       WHERE code = $1 AND expires_at > NOW()`,
-      [code]
-    );
+    const storedCode = await store.getAuthCode(code);
 
-    if (result.rows.length === 0) {
-      console.log('[OAuth Storage] Authorization code not found or expired');
+    if (!storedCode) {
+      log.debug('Authorization code not found or expired');
       return null;
     }
 
-    const row = result.rows[0];
-    const storedCode: StoredAuthCode = {
-      code: row.code,
-      clientId: row.client_id,
-      redirectUri: row.redirect_uri,
-      codeChallenge: row.code_challenge,
-      codeChallengeMethod: row.code_challenge_method,
-      scope: row.scope,
-      createdAt: new Date(row.created_at).getTime(),
-      expiresAt: new Date(row.expires_at).getTime(),
-    };
-
-    console.log('[OAuth Storage] Authorization code retrieved from database');
+    log.debug('Authorization code retrieved');
     return storedCode;
   } catch (error) {
-    console.error('[OAuth Storage] Failed to retrieve authorization code:', error);
+    log.error('Failed to retrieve authorization code', { err: error });
     return null;
   }
 }
 
 /**
  * Delete an authorization code (single-use)
+ * Returns false if it was already deleted, so of concurrent redemptions only one wins
  */
-export async function deleteAuthCode(pool: Pool, code: string): Promise<void> {
+export async function deleteAuthCode(store: OAuthStore, code: string): Promise<boolean> {
   try {
-    await pool.query('DELETE FROM authorization_codes WHERE code = $1', [code]);
-    console.log('[OAuth Storage] Authorization code deleted from database');
+    const deleted = await store.deleteAuthCode(code);
+    log.debug(deleted ? 'Authorization code deleted' : 'Authorization code already deleted');
+    return deleted;
   } catch (error) {
-    console.error('[OAuth Storage] Failed to delete authorization code:', error);
+    log.error('Failed to delete authorization code', { err: error });
+    return false;
   }
 }
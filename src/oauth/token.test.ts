@@ -0,0 +1,273 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it } from 'vitest';
+import express from 'express';
+import bcrypt from 'bcrypt';
+import { createHash, randomBytes } from 'crypto';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import { setupOAuth, createAuthMiddleware } from '../index.js';
+import { createMemoryStore } from '../storage/memory.js';
+import { registerClient } from './clients.js';
+import type { OAuthConfig } from '../types/index.js';
+
+const REDIRECT_URI = 'http://localhost:3000/callback';
+
+describe('token endpoint (memory store)', () => {
+  const store = createMemoryStore();
+  let server: Server;
+  let baseUrl: string;
+  let config: OAuthConfig;
+  let cookie: string;
+
+  beforeAll(async () => {
+    const app = express();
+    app.use(express.json());
+    app.use(express.urlencoded({ extended: false }));
+
+    config = {
+      serverUrl: 'http://localhost',
+      database: store,
+      clientId: 'static-client',
+      clientSecret: 'static-secret',
+      sessionSecret: 'test-session-secret-with-enough-length',
+      passwordHash: bcrypt.hashSync('password', 4),
+      rateLimit: { login: false, token: false, authorize: false },
+    };
+
+    server = app.listen(0);
+    baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+    config.serverUrl = baseUrl;
+
+    const { ready } = setupOAuth(app, config);
+    app.get('/mcp', createAuthMiddleware(config, { requiredScopes: ['mcp:tools:call'] }), (req, res) => {
+      res.json(req.auth);
+    });
+    await ready;
+
+    const login = await fetch(`${baseUrl}/login`, {
+      method: 'POST',
+      redirect: 'manual',
+      body: new URLSearchParams({ username: '', password: 'password', original_url: '/' }),
+    });
+    cookie = (login.headers.get('set-cookie') || '').split(';')[0];
+  });
+
+  afterAll(() => {
+    server.close();
+  });
+
+  async function authorize(): Promise<{ code: string; verifier: string }> {
+    const verifier = randomBytes(32).toString('base64url');
+    const query = new URLSearchParams({
+      client_id: 'static-client',
+      redirect_uri: REDIRECT_URI,
+      response_type: 'code',
+      code_challenge: createHash('sha256').update(verifier).digest('base64url'),
+      code_challenge_method: 'S256',
+      scope: 'mcp:tools:*',
+    });
+    const response = await fetch(`${baseUrl}/oauth/authorize?${query}`, { redirect: 'manual', headers: { cookie } });
+    const code = new URL(response.headers.get('location') || '').searchParams.get('code');
+    expect(code).toBeTruthy();
+    return { code: code as string, verifier };
+  }
+
+  async function token(params: Record<string, string>): Promise<{ status: number; body: any }> {
+    const response = await fetch(`${baseUrl}/oauth/token`, {
+      method: 'POST',
+      body: new URLSearchParams({ client_id: 'static-client', client_secret: 'static-secret', ...params }),
+    });
+    return { status: response.status, body: await response.json() };
+  }
+
+  function exchange(code: string, verifier: string) {
+    return token({ grant_type: 'authorization_code', code, redirect_uri: REDIRECT_URI, code_verifier: verifier });
+  }
+
+  it('exchanges an authorization code for tokens the middleware accepts', async () => {
+    const { code, verifier } = await authorize();
+    const { status, body } = await exchange(code, verifier);
+
+    expect(status).toBe(200);
+    expect(body).toMatchObject({ token_type: 'Bearer', scope: 'mcp:tools:*', expires_in: 3600 });
+    expect(body.refresh_token).toBeTruthy();
+
+    const mcp = await fetch(`${baseUrl}/mcp`, { headers: { authorization: `Bearer ${body.access_token}` } });
+    expect(mcp.status).toBe(200);
+    expect(await mcp.json()).toMatchObject({ clientId: 'static-client', scopes: ['mcp:tools:*'] });
+  });
+
+  it('rejects a wrong code_verifier', async () => {
+    const { code } = await authorize();
+    const { status, body } = await exchange(code, randomBytes(32).toString('base64url'));
+
+    expect(status).toBe(400);
+    expect(body.error).toBe('invalid_grant');
+  });
+
+  it('redeems an authorization code only once, even concurrently', async () => {
+    const { code, verifier } = await authorize();
+    const results = await Promise.all([exchange(code, verifier), exchange(code, verifier), exchange(code, verifier)]);
+
+    expect(results.map((result) => result.status).sort()).toEqual([200, 400, 400]);
+  });
+
+  it('rotates refresh tokens and revokes the family on reuse', async () => {
+    const { code, verifier } = await authorize();
+    const first = (await exchange(code, verifier)).body;
+
+    const refreshed = await token({ grant_type: 'refresh_token', refresh_token: first.refresh_token });
+    expect(refreshed.status).toBe(200);
+    expect(refreshed.body.refresh_token).not.toBe(first.refresh_token);
+
+    const reused = await token({ grant_type: 'refresh_token', refresh_token: first.refresh_token });
+    expect(reused.status).toBe(400);
+    expect(reused.body.error).toBe('invalid_grant');
+
+    // The whole family is revoked, including the tokens from the legitimate refresh
+    const mcp = await fetch(`${baseUrl}/mcp`, { headers: { authorization: `Bearer ${refreshed.body.access_token}` } });
+    expect(mcp.status).toBe(401);
+    expect(await store.queryAuthEvents({ event: 'refresh_token_reuse', limit: 1 })).toHaveLength(1);
+  });
+
+  it('rejects scopes outside the configured ones', async () => {
+    const { code, verifier } = await authorize();
+    const first = (await exchange(code, verifier)).body;
+
+    const widened = await token({ grant_type: 'refresh_token', refresh_token: first.refresh_token, scope: '*' });
+    expect(widened.status).toBe(400);
+    expect(widened.body.error).toBe('invalid_scope');
+  });
+
+  it('keeps the refresh token usable after an invalid_target refresh', async () => {
+    const { code, verifier } = await authorize();
+    const first = (await exchange(code, verifier)).body;
+
+    const other = await token({
+      grant_type: 'refresh_token',
+      refresh_token: first.refresh_token,
+      resource: 'https://other.example.com/mcp',
+    });
+    expect(other.status).toBe(400);
+    expect(other.body.error).toBe('invalid_target');
+
+    const retried = await token({ grant_type: 'refresh_token', refresh_token: first.refresh_token });
+    expect(retried.status).toBe(200);
+  });
+
+  it('keeps the refresh token usable after an invalid_scope refresh', async () => {
+    const { code, verifier } = await authorize();
+    const first = (await exchange(code, verifier)).body;
+
+    const widened = await token({
+      grant_type: 'refresh_token',
+      refresh_token: first.refresh_token,
+      scope: 'mcp:resources:*',
+    });
+    expect(widened.status).toBe(400);
+    expect(widened.body.error).toBe('invalid_scope');
+
+    const retried = await token({ grant_type: 'refresh_token', refresh_token: first.refresh_token });
+    expect(retried.status).toBe(200);
+    expect(retried.body.scope).toBe('mcp:tools:*');
+
+    // Not treated as reuse: the family is still live
+    const mcp = await fetch(`${baseUrl}/mcp`, { headers: { authorization: `Bearer ${first.access_token}` } });
+    expect(mcp.status).toBe(200);
+  });
+});
+
+describe('client_credentials grant (memory store)', () => {
+  const store = createMemoryStore();
+  let server: Server;
+  let baseUrl: string;
+  let config: OAuthConfig;
+
+  beforeAll(async () => {
+    const app = express();
+    app.use(express.json());
+    app.use(express.urlencoded({ extended: false }));
+
+    config = {
+      serverUrl: 'http://localhost',
+      database: store,
+      clientId: 'static-client',
+      clientSecret: 'static-secret',
+      sessionSecret: 'test-session-secret-with-enough-length',
+      rateLimit: { token: false, register: false },
+    };
+
+    server = app.listen(0);
+    baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+    config.serverUrl = baseUrl;
+
+    const { ready } = setupOAuth(app, config);
+    await ready;
+  });
+
+  afterEach(() => {
+    config.registration = undefined;
+  });
+
+  afterAll(() => {
+    server.close();
+  });
+
+  function register(headers: Record<string, string> = {}): Promise<Response> {
+    return fetch(`${baseUrl}/oauth/register`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify({ grant_types: ['client_credentials'], scope: 'mcp:tools:call' }),
+    });
+  }
+
+  async function token(clientId: string, clientSecret: string): Promise<{ status: number; body: any }> {
+    const credentials = Buffer.from(`${clientId}:${clientSecret}`).toString('base64');
+    const response = await fetch(`${baseUrl}/oauth/token`, {
+      method: 'POST',
+      headers: { Authorization: `Basic ${credentials}` },
+      body: new URLSearchParams({ grant_type: 'client_credentials' }),
+    });
+    return { status: response.status, body: await response.json() };
+  }
+
+  function provision(scope: string) {
+    return registerClient(store, 'ci', [], 'client_secret_basic', ['client_credentials'], ['code'], scope);
+  }
+
+  it('is not available to clients registered in open mode', async () => {
+    const registration = await register();
+    expect(registration.status).toBe(400);
+    expect((await registration.json()).error).toBe('invalid_client_metadata');
+
+    // Nor to clients that registered for it before
+    const { client, clientSecret } = await provision('mcp:tools:call');
+    const { status, body } = await token(client.client_id, clientSecret);
+    expect(status).toBe(400);
+    expect(body.error).toBe('unauthorized_client');
+  });
+
+  it('issues tokens to clients registered with an initial access token', async () => {
+    config.registration = { mode: 'initial_access_token', initialAccessTokens: ['operator-token'] };
+
+    const registration = await register({ Authorization: 'Bearer operator-token' });
+    expect(registration.status).toBe(201);
+    const client = await registration.json();
+
+    const { status, body } = await token(client.client_id, client.client_secret);
+    expect(status).toBe(200);
+    expect(body.scope).toBe('mcp:tools:call');
+    expect(body.refresh_token).toBeUndefined();
+  });
+
+  it('limits the registered scope to the configured scopes', async () => {
+    config.registration = { clientCredentials: true };
+
+    const wildcard = await provision('*');
+    expect((await token(wildcard.client.client_id, wildcard.clientSecret)).body.error).toBe('invalid_scope');
+
+    const mixed = await provision('mcp:tools:* admin');
+    const { status, body } = await token(mixed.client.client_id, mixed.clientSecret);
+    expect(status).toBe(200);
+    expect(body.scope).toBe('mcp:tools:*');
+  });
+});
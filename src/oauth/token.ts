@@ -3,140 +3,513 @@
  *
  * POST /oauth/token
  *
- * Handles token exchange:
+ * Handles token exchange (grant_type=authorization_code):
  * 1. Validate request parameters
  * 2. Verify authorization code exists and is not expired
  * 3. Verify PKCE code_verifier
  * 4. Verify redirect_uri matches original request
- * 5. Delete authorization code (single-use)
- * 6. Return access token
+ * 5. Delete authorization code (single-use; a concurrent redemption loses)
+ * 6. Issue access token + refresh token
+ *
+ * Handles token refresh (grant_type=refresh_token):
+ * 1. Consume refresh token (single-use, rotated on every refresh)
+ * 2. On reuse of an already-rotated token → revoke the whole token family
+ * 3. Issue new access token + refresh token in the same family
+ *
+ * Handles device polling (grant_type=urn:ietf:params:oauth:grant-type:device_code, RFC 8628):
+ * 1. Polling faster than the interval → slow_down (and the interval grows by 5s)
+ * 2. Not decided yet → authorization_pending; denied → access_denied;
+ *    expired → expired_token
+ * 3. Approved → delete the device code (single-use) and issue tokens
+ *
+ * Handles machine-to-machine access (grant_type=client_credentials):
+ * 1. Confidential clients registered for the grant only (not public clients),
+ *    while registration allows the grant (see allowsClientCredentials)
+ * 2. Scope limited to the client's registered scope, within the configured scopes
+ * 3. Issue an access token without a user and without a refresh token
+ *
+ * Every token is bound to one resource (RFC 8707): the one named at the
+ * authorization request (codes, device codes), kept on refresh, or given in
+ * the token request (client_credentials). A resource parameter in the token
+ * request must match the grant's.
  */
 
+import { randomBytes } from 'crypto';
 import type { Request, Response } from 'express';
-import type { Pool } from 'pg';
 import { getAuthCode, deleteAuthCode } from './storage.js';
 import { verifyPKCE, validateCodeVerifier } from './pkce.js';
-import { validateClient, getClient } from './clients.js';
+import { authenticateClient, readClientCredentials, setBasicChallenge } from './client-auth.js';
+import {
+  issueTokens,
+  consumeRefreshToken,
+  getRefreshToken,
+  revokeTokenFamily,
+  DEFAULT_ACCESS_TOKEN_MAX_AGE,
+  DEFAULT_REFRESH_TOKEN_MAX_AGE,
+} from './tokens.js';
+import type { IssuedTokens, AccessTokenSigner } from './tokens.js';
+import { signJwt } from './jwt.js';
+import { filterSupportedScopes, isScopeSubset, isSupportedScope, parseScope } from './scopes.js';
+import { allowsClientCredentials } from './registration-policy.js';
+import { getDefaultResource, resolveResource } from './resources.js';
+import { getSigningKeyManager } from './signing-keys.js';
+import { DEVICE_CODE_GRANT_TYPE, SLOW_DOWN_INCREMENT, canUseDeviceCodes, pollDeviceCode } from './device-codes.js';
 import { logAuthEvent } from '../utils/audit-log.js';
-import type { TokenRequest, OAuthError, TokenResponse, OAuthConfig } from '../types/index.js';
+import { getLogger } from '../utils/logger.js';
+import type {
+  TokenRequest,
+  OAuthError,
+  TokenResponse,
+  OAuthConfig,
+  RegisteredClient,
+  OAuthStore,
+} from '../types/index.js';
+
+const log = getLogger('token');
+
+const SUPPORTED_GRANT_TYPES = ['authorization_code', 'refresh_token', 'client_credentials', DEVICE_CODE_GRANT_TYPE];
 
 /**
  * Send OAuth error response
  */
-function sendError(res: Response, error: string, description?: string): void {
+function sendError(res: Response, error: string, description?: string, status = 400): void {
   const errorResponse: OAuthError = {
     error,
     error_description: description,
   };
 
-  res.status(400).json(errorResponse);
+  res.status(status).json(errorResponse);
+}
+
+/**
+ * Build token response from freshly issued tokens
+ */
+function buildTokenResponse(issued: IssuedTokens, scope: string): TokenResponse {
+  return {
+    access_token: issued.accessToken,
+    token_type: 'Bearer',
+    expires_in: issued.expiresIn,
+    refresh_token: issued.refreshToken,
+    scope,
+  };
+}
+
+/**
+ * Check whether a client may use the refresh_token grant
+ * Static client always can; dynamic clients must have registered it
+ */
+function canUseRefreshTokens(client: RegisteredClient | undefined, isStaticClient: boolean): boolean {
+  if (isStaticClient) {
+    return true;
+  }
+  return Boolean(client?.grant_types.includes('refresh_token'));
+}
+
+/**
+ * Check whether a client may use the client_credentials grant
+ * Only dynamic clients that registered it (the static client acts for the owner),
+ * while registration allows it (so clients registered in open mode lose it)
+ */
+function canUseClientCredentials(config: OAuthConfig, client: RegisteredClient | undefined): boolean {
+  return allowsClientCredentials(config) && Boolean(client?.grant_types.includes('client_credentials'));
+}
+
+/**
+ * Check the resource parameter of a token request against the grant's resource
+ * Leaving it out keeps the grant's resource
+ */
+function matchesResource(config: OAuthConfig, requested: unknown, bound: string): boolean {
+  return requested === undefined || resolveResource(config, requested) === bound;
+}
+
+/**
+ * Create signer for JWT access tokens (RFC 9068 claims)
+ */
+function createJwtSigner(config: OAuthConfig, store: OAuthStore): AccessTokenSigner {
+  const keyManager = getSigningKeyManager(store, config);
+
+  return async ({ clientId, userId, scope, resource, expiresAt }) => {
+    const { kid, privateKey } = await keyManager.getActiveKey();
+    const now = Math.floor(Date.now() / 1000);
+
+    return signJwt(
+      {
+        iss: config.serverUrl,
+        aud: resource || getDefaultResource(config),
+        sub: userId || clientId,
+        client_id: clientId,
+        scope,
+        iat: now,
+        exp: Math.floor(expiresAt.getTime() / 1000),
+        jti: randomBytes(16).toString('base64url'),
+      },
+      privateKey,
+      kid
+    );
+  };
 }
 
 /**
  * Create token handler
  */
-export function createTokenHandler(config: OAuthConfig, pool: Pool) {
+export function createTokenHandler(config: OAuthConfig, store: OAuthStore) {
+  const scopes = config.scopes || ['mcp:tools:*', 'mcp:resources:*', 'mcp:prompts:*'];
+  const accessTokenMaxAge = config.accessTokenMaxAge || DEFAULT_ACCESS_TOKEN_MAX_AGE;
+  const refreshTokenMaxAge = config.refreshTokenMaxAge || DEFAULT_REFRESH_TOKEN_MAX_AGE;
+  const accessTokenSigner = config.accessTokenFormat === 'jwt'
+    ? createJwtSigner(config, store)
+    : undefined;
+  const defaultResource = getDefaultResource(config);
+
   return async function handleToken(req: Request, res: Response): Promise<void> {
     try {
-      let {
+      const {
         grant_type,
         code,
         redirect_uri,
         code_verifier,
-        client_id,
-        client_secret,
-      }: Partial<TokenRequest & { client_secret?: string }> = req.body;
+        refresh_token,
+        device_code,
+        scope,
+        resource,
+      }: Partial<TokenRequest> = req.body;
 
-      console.log('[OAuth Token] Request received:', {
-        grant_type,
-        code: code ? '***' : undefined,
-        redirect_uri,
-        code_verifier: code_verifier ? '***' : undefined,
-        client_id,
-        client_secret: client_secret ? '***' : undefined,
+      // client_id / client_secret come from the body or an HTTP Basic header
+      const credentials = readClientCredentials(req);
+      if ('error' in credentials) {
+        setBasicChallenge(req, res, config);
+        const status = credentials.error === 'invalid_client' ? 401 : 400;
+        sendError(res, credentials.error, credentials.errorDescription, status);
+        return;
+      }
+
+      log.debug('Request received', {
+        grantType: grant_type,
+        redirectUri: redirect_uri,
+        clientId: credentials.clientId,
+        clientAuthMethod: credentials.method,
+        resource,
       });
 
       // Validate required parameters
-      if (!grant_type || grant_type !== 'authorization_code') {
-        sendError(res, 'unsupported_grant_type', 'Only "authorization_code" grant_type is supported');
+      if (!grant_type || !SUPPORTED_GRANT_TYPES.includes(grant_type)) {
+        sendError(
+          res,
+          'unsupported_grant_type',
+          `Supported grant_types: ${SUPPORTED_GRANT_TYPES.join(', ')}`
+        );
         return;
       }
 
-      if (!code || typeof code !== 'string') {
-        sendError(res, 'invalid_request', 'Missing or invalid code');
-        return;
-      }
+      if (grant_type === 'authorization_code') {
+        if (!code || typeof code !== 'string') {
+          sendError(res, 'invalid_request', 'Missing or invalid code');
+          return;
+        }
 
-      if (!redirect_uri || typeof redirect_uri !== 'string') {
-        sendError(res, 'invalid_request', 'Missing or invalid redirect_uri');
-        return;
+        if (!redirect_uri || typeof redirect_uri !== 'string') {
+          sendError(res, 'invalid_request', 'Missing or invalid redirect_uri');
+          return;
+        }
+
+        if (!code_verifier || typeof code_verifier !== 'string') {
+          sendError(res, 'invalid_request', 'Missing or invalid code_verifier');
+          return;
+        }
+      } else if (grant_type === 'client_credentials') {
+        if (scope !== undefined && typeof scope !== 'string') {
+          sendError(res, 'invalid_request', 'Invalid scope');
+          return;
+        }
+      } else if (grant_type === DEVICE_CODE_GRANT_TYPE) {
+        if (!device_code || typeof device_code !== 'string') {
+          sendError(res, 'invalid_request', 'Missing or invalid device_code');
+          return;
+        }
+      } else {
+        if (!refresh_token || typeof refresh_token !== 'string') {
+          sendError(res, 'invalid_request', 'Missing or invalid refresh_token');
+          return;
+        }
+
+        if (scope !== undefined && typeof scope !== 'string') {
+          sendError(res, 'invalid_request', 'Invalid scope');
+          return;
+        }
       }
 
-      if (!code_verifier || typeof code_verifier !== 'string') {
-        sendError(res, 'invalid_request', 'Missing or invalid code_verifier');
+      // A scope outside the configured ones would widen what wildcards cover
+      if (typeof scope === 'string' && scope && !isSupportedScope(scope, scopes)) {
+        sendError(res, 'invalid_scope', 'Unsupported scope');
         return;
       }
 
       // WORKAROUND: Claude Code SDK doesn't send client_id in token request
-      // Extract it from the authorization code record instead
-      if (!client_id || typeof client_id !== 'string') {
-        console.log('[OAuth Token] WORKAROUND: client_id not provided, extracting from authorization code');
-        const tempCode = await getAuthCode(pool, code);
-        if (tempCode?.clientId) {
-          client_id = tempCode.clientId;
-          console.log('[OAuth Token] WORKAROUND: Extracted client_id from auth code:', client_id);
+      // Extract it from the authorization code / refresh token record instead
+      // (device and client_credentials clients must send it)
+      if (!credentials.clientId && (grant_type === 'authorization_code' || grant_type === 'refresh_token')) {
+        log.debug('WORKAROUND: client_id not provided, extracting from grant');
+        const grantClientId = grant_type === 'authorization_code'
+          ? (await getAuthCode(store, code as string))?.clientId
+          : (await getRefreshToken(store, refresh_token as string))?.clientId;
+        if (grantClientId) {
+          credentials.clientId = grantClientId;
+          log.debug('WORKAROUND: Extracted client_id from grant', { clientId: grantClientId });
         } else {
           sendError(res, 'invalid_request', 'Missing or invalid client_id');
           return;
         }
       }
 
-      // Get client from database to check auth method
-      const client = await getClient(pool, client_id);
-      const isStaticClient = client_id === config.clientId;
+      // Authenticate client (public clients only need a known client_id)
+      const clientAuth = await authenticateClient(store, config, credentials);
+      if (!clientAuth.authenticated) {
+        // 401 when the client authenticated with the Authorization header (RFC 6749 Section 5.2)
+        setBasicChallenge(req, res, config);
+        const status = credentials.method === 'client_secret_basic' ? 401 : 400;
+        sendError(res, clientAuth.error, clientAuth.errorDescription, status);
+        return;
+      }
+      const { clientId, client, isStaticClient } = clientAuth;
+
+      const includeRefreshToken = canUseRefreshTokens(client, isStaticClient);
+
+      if (grant_type === 'client_credentials') {
+        // Public clients can't prove who they are (RFC 6749 Section 4.4)
+        if (clientAuth.isPublicClient || !canUseClientCredentials(config, client)) {
+          await logAuthEvent(store, 'token_failure', req, {
+            success: false,
+            clientId,
+            errorMessage: clientAuth.isPublicClient
+              ? 'client_credentials grant requested by a public client'
+              : 'Client is not registered for the client_credentials grant',
+          });
+
+          sendError(res, 'unauthorized_client', 'Client is not registered for the client_credentials grant');
+          return;
+        }
+
+        // Registered scope within the configured ones: a '*' registered before
+        // scopes were checked grants nothing
+        const registeredScope = client?.scope
+          ? filterSupportedScopes(parseScope(client.scope), scopes).join(' ')
+          : scopes.join(' ');
+        if (!registeredScope) {
+          sendError(res, 'invalid_scope', 'Client has no supported scope registered');
+          return;
+        }
 
-      // Determine expected auth method
-      let authMethod = 'client_secret_post'; // default for static client
-      if (client) {
-        authMethod = client.token_endpoint_auth_method;
+        // Requested scope may narrow, but never widen, the client's registered scope
+        if (scope && !isScopeSubset(scope, registeredScope)) {
+          sendError(res, 'invalid_scope', "Requested scope exceeds the client's registered scope");
+          return;
+        }
+        const tokenScope = scope || registeredScope;
+
+        const tokenResource = resolveResource(config, resource);
+        if (!tokenResource) {
+          sendError(res, 'invalid_target', 'Unknown resource');
+          return;
+        }
+
+        // No user and no refresh token: the client can always ask again (RFC 6749 Section 4.4.3)
+        const issued = await issueTokens(store, {
+          clientId,
+          scope: tokenScope,
+          resource: tokenResource,
+          includeRefreshToken: false,
+          accessTokenMaxAge,
+          refreshTokenMaxAge,
+          accessTokenSigner,
+        });
+
+        log.info('Client credentials grant successful', { clientId });
+
+        await logAuthEvent(store, 'client_credentials_grant', req, {
+          success: true,
+          clientId,
+          metadata: { scope: tokenScope, resource: tokenResource },
+        });
+
+        res.json(buildTokenResponse(issued, tokenScope));
+        return;
       }
 
-      // Verify client credentials based on auth method
-      if (authMethod === 'none') {
-        // Public client - no secret required, just validate client_id exists
-        if (!client && !isStaticClient) {
-          sendError(res, 'invalid_client', 'Invalid client_id');
+      if (grant_type === DEVICE_CODE_GRANT_TYPE) {
+        if (!canUseDeviceCodes(client, isStaticClient)) {
+          sendError(res, 'unauthorized_client', 'Client is not registered for the device_code grant');
           return;
         }
-      } else {
-        // Confidential client - require client_secret
-        if (!client_secret || typeof client_secret !== 'string') {
-          sendError(res, 'invalid_client', 'Missing or invalid client_secret');
+
+        const now = Date.now();
+        const deviceCode = await pollDeviceCode(store, device_code as string);
+
+        if (!deviceCode || deviceCode.clientId !== clientId) {
+          sendError(res, 'invalid_grant', 'Invalid device_code');
           return;
         }
 
-        const isValid = await validateClient(
-          pool,
-          client_id,
-          client_secret,
-          config.clientId,
-          config.clientSecret
-        );
+        const tokenResource = deviceCode.resource || defaultResource;
+        if (!matchesResource(config, resource, tokenResource)) {
+          sendError(res, 'invalid_target', 'Resource does not match the device authorization');
+          return;
+        }
+
+        if (deviceCode.expiresAt <= now) {
+          await store.deleteDeviceCode(deviceCode.deviceCodeHash);
+          sendError(res, 'expired_token', 'The device_code has expired');
+          return;
+        }
+
+        // Polling too fast: every further slow_down adds to the interval (RFC 8628 Section 3.5)
+        if (deviceCode.lastPolledAt && now - deviceCode.lastPolledAt < deviceCode.interval * 1000) {
+          await store.setDeviceCodeInterval(deviceCode.deviceCodeHash, deviceCode.interval + SLOW_DOWN_INCREMENT);
+          sendError(res, 'slow_down', `Poll at most every ${deviceCode.interval + SLOW_DOWN_INCREMENT} seconds`);
+          return;
+        }
 
-        if (!isValid) {
-          sendError(res, 'invalid_client', 'Invalid client_id or client_secret');
+        if (deviceCode.status === 'pending') {
+          sendError(res, 'authorization_pending', 'The user has not approved the request yet');
           return;
         }
+
+        // Single-use: only the poll that deletes the code gets tokens
+        const redeemed = await store.deleteDeviceCode(deviceCode.deviceCodeHash);
+
+        if (deviceCode.status === 'denied' || !redeemed) {
+          await logAuthEvent(store, 'token_failure', req, {
+            success: false,
+            clientId,
+            errorMessage: redeemed ? 'Device authorization denied' : 'Device code already used',
+          });
+
+          sendError(
+            res,
+            redeemed ? 'access_denied' : 'invalid_grant',
+            redeemed ? 'The user denied the request' : 'Invalid device_code'
+          );
+          return;
+        }
+
+        const tokenScope = deviceCode.scope || scopes.join(' ');
+        const issued = await issueTokens(store, {
+          clientId,
+          userId: deviceCode.userId,
+          scope: tokenScope,
+          resource: tokenResource,
+          includeRefreshToken,
+          accessTokenMaxAge,
+          refreshTokenMaxAge,
+          accessTokenSigner,
+        });
+
+        log.info('Device code exchange successful', { clientId });
+
+        await logAuthEvent(store, 'token_exchange', req, {
+          success: true,
+          clientId,
+          metadata: { grantType: DEVICE_CODE_GRANT_TYPE },
+        });
+
+        res.json(buildTokenResponse(issued, tokenScope));
+        return;
+      }
+
+      if (grant_type === 'refresh_token') {
+        if (!includeRefreshToken) {
+          sendError(res, 'unauthorized_client', 'Client is not registered for the refresh_token grant');
+          return;
+        }
+
+        // Check the requested scope and resource before using the token up: otherwise
+        // the client's retry would look like reuse and revoke the whole family
+        const pending = await getRefreshToken(store, refresh_token as string);
+        if (pending && !pending.usedAt && pending.clientId === clientId) {
+          // Requested scope may narrow, but never widen, the original grant
+          if (scope && !isScopeSubset(scope, pending.scope || scopes.join(' '))) {
+            sendError(res, 'invalid_scope', 'Requested scope exceeds the original grant');
+            return;
+          }
+
+          // One resource per token family (tokens from before resource indicators get the default)
+          if (!matchesResource(config, resource, pending.resource || defaultResource)) {
+            sendError(res, 'invalid_target', 'Resource does not match the original grant');
+            return;
+          }
+        }
+
+        // Rotate refresh token (single-use)
+        const result = await consumeRefreshToken(store, refresh_token as string);
+
+        if (result.status === 'reused') {
+          // A rotated token was presented again: assume it leaked and
+          // revoke every token issued from the same authorization grant
+          await revokeTokenFamily(store, result.token.familyId);
+
+          await logAuthEvent(store, 'refresh_token_reuse', req, {
+            success: false,
+            clientId,
+            errorMessage: 'Refresh token reuse detected, token family revoked',
+            metadata: { familyId: result.token.familyId },
+          });
+
+          sendError(res, 'invalid_grant', 'Invalid refresh token');
+          return;
+        }
+
+        if (result.status === 'invalid') {
+          await logAuthEvent(store, 'token_failure', req, {
+            success: false,
+            clientId,
+            errorMessage: 'Invalid or expired refresh token',
+          });
+
+          sendError(res, 'invalid_grant', 'Invalid or expired refresh token');
+          return;
+        }
+
+        // Verify client_id matches (the token is already consumed, so the family is compromised)
+        if (result.token.clientId !== clientId) {
+          await revokeTokenFamily(store, result.token.familyId);
+          sendError(res, 'invalid_grant', 'client_id mismatch');
+          return;
+        }
+
+        // Both checked against the same token before it was consumed
+        const tokenScope = scope || result.token.scope || scopes.join(' ');
+        const tokenResource = result.token.resource || defaultResource;
+
+        const issued = await issueTokens(store, {
+          clientId,
+          userId: result.token.userId,
+          scope: tokenScope,
+          resource: tokenResource,
+          familyId: result.token.familyId,
+          includeRefreshToken: true,
+          accessTokenMaxAge,
+          refreshTokenMaxAge,
+          accessTokenSigner,
+        });
+
+        log.info('Token refresh successful', { clientId });
+
+        await logAuthEvent(store, 'token_refresh', req, {
+          success: true,
+          clientId,
+        });
+
+        res.json(buildTokenResponse(issued, tokenScope));
+        return;
       }
 
       // Validate code_verifier format
-      if (!validateCodeVerifier(code_verifier)) {
+      if (!validateCodeVerifier(code_verifier as string)) {
         sendError(res, 'invalid_request', 'Invalid code_verifier format');
         return;
       }
 
       // Retrieve authorization code
-      const storedCode = await getAuthCode(pool, code);
+      const storedCode = await getAuthCode(store, code as string);
 
       if (!storedCode) {
         sendError(res, 'invalid_grant', 'Invalid or expired authorization code');
@@ -144,29 +517,37 @@ export function createTokenHandler(config: OAuthConfig, pool: Pool) {
       }
 
       // Verify client_id matches
-      if (storedCode.clientId !== client_id) {
-        deleteAuthCode(pool, code);
+      if (storedCode.clientId !== clientId) {
+        await deleteAuthCode(store, storedCode.code);
         sendError(res, 'invalid_grant', 'client_id mismatch');
         return;
       }
 
       // Verify redirect_uri matches original request
       if (storedCode.redirectUri !== redirect_uri) {
-        deleteAuthCode(pool, code);
+        await deleteAuthCode(store, storedCode.code);
         sendError(res, 'invalid_grant', 'redirect_uri mismatch');
         return;
       }
 
+      // Verify resource matches the authorization request, if given again
+      const tokenResource = storedCode.resource || defaultResource;
+      if (!matchesResource(config, resource, tokenResource)) {
+        await deleteAuthCode(store, storedCode.code);
+        sendError(res, 'invalid_target', 'Resource does not match the authorization request');
+        return;
+      }
+
       // Verify PKCE: SHA256(code_verifier) === code_challenge
-      const pkceValid = verifyPKCE(code_verifier, storedCode.codeChallenge);
+      const pkceValid = verifyPKCE(code_verifier as string, storedCode.codeChallenge);
 
       if (!pkceValid) {
-        deleteAuthCode(pool, code);
+        await deleteAuthCode(store, storedCode.code);
 
         // Log failed token exchange
-        await logAuthEvent(pool, 'token_failure', req, {
+        await logAuthEvent(store, 'token_failure', req, {
           success: false,
-          clientId: client_id,
+          clientId,
           errorMessage: 'PKCE verification failed',
         });
 
@@ -174,28 +555,42 @@ export function createTokenHandler(config: OAuthConfig, pool: Pool) {
         return;
       }
 
-      // Delete authorization code (single-use)
-      deleteAuthCode(pool, code);
+      // Single-use: only the request that deletes the code gets tokens
+      const redeemed = await deleteAuthCode(store, storedCode.code);
+      if (!redeemed) {
+        await logAuthEvent(store, 'token_failure', req, {
+          success: false,
+          clientId,
+          errorMessage: 'Authorization code already used',
+        });
+
+        sendError(res, 'invalid_grant', 'Invalid or expired authorization code');
+        return;
+      }
+
+      const tokenScope = storedCode.scope || scopes.join(' ');
+      const issued = await issueTokens(store, {
+        clientId,
+        userId: storedCode.userId,
+        scope: tokenScope,
+        resource: tokenResource,
+        includeRefreshToken,
+        accessTokenMaxAge,
+        refreshTokenMaxAge,
+        accessTokenSigner,
+      });
 
-      console.log('[OAuth Token] Token exchange successful');
+      log.info('Token exchange successful', { clientId });
 
       // Log successful token exchange
-      await logAuthEvent(pool, 'token_exchange', req, {
+      await logAuthEvent(store, 'token_exchange', req, {
         success: true,
-        clientId: client_id,
+        clientId,
       });
 
-      // Return access token
-      const scopes = config.scopes || ['mcp:tools:*', 'mcp:resources:*', 'mcp:prompts:*'];
-      const tokenResponse: TokenResponse = {
-        access_token: config.apiKey,
-        token_type: 'Bearer',
-        scope: storedCode.scope || scopes.join(' '),
-      };
-
-      res.json(tokenResponse);
+      res.json(buildTokenResponse(issued, tokenScope));
     } catch (error) {
-      console.error('[OAuth Token] Error:', error);
+      log.error('Token request failed', { err: error });
       sendError(res, 'server_error', 'Internal server error');
     }
   };
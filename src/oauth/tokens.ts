@@ -0,0 +1,244 @@
+/**
+ * Access & Refresh Token Storage
+ *
+ * Issues short-lived access tokens and rotating refresh tokens.
+ * Tokens are stored as SHA-256 hashes; the raw values are only ever
+ * returned to the client once.
+ *
+ * Refresh tokens belong to a "family" (one per authorization grant).
+ * Every refresh rotates the token; presenting an already-used refresh
+ * token is treated as token theft and revokes the whole family.
+ */
+
+import { randomBytes, createHash } from 'crypto';
+import { getLogger } from '../utils/logger.js';
+import type { OAuthStore, StoredAccessToken, StoredRefreshToken, TokenFamily } from '../types/index.js';
+
+const log = getLogger('tokens');
+
+export const DEFAULT_ACCESS_TOKEN_MAX_AGE = 60 * 60 * 1000; // 1 hour
+export const DEFAULT_REFRESH_TOKEN_MAX_AGE = 30 * 24 * 60 * 60 * 1000; // 30 days
+
+/**
+ * Generate a cryptographically secure opaque token
+ */
+export function generateToken(): string {
+  return randomBytes(32).toString('base64url');
+}
+
+/**
+ * Hash a token for storage (tokens are high-entropy, so no salt is needed)
+ */
+export function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Produces the access token value (e.g. a signed JWT) instead of a random string
+ */
+export type AccessTokenSigner = (token: {
+  clientId: string;
+  userId?: string;
+  scope?: string;
+  resource?: string;
+  expiresAt: Date;
+}) => Promise<string>;
+
+export interface IssueTokensOptions {
+  clientId: string;
+  /** Subject: user who approved the grant */
+  userId?: string;
+  scope?: string;
+  /** Audience: resource (MCP server) the tokens are valid for */
+  resource?: string;
+  /** Existing token family (refresh) or undefined to start a new one */
+  familyId?: string;
+  /** Whether to issue a refresh token alongside the access token */
+  includeRefreshToken: boolean;
+  accessTokenMaxAge: number;
+  refreshTokenMaxAge: number;
+  /** Signer for self-contained access tokens (default: opaque random token) */
+  accessTokenSigner?: AccessTokenSigner;
+}
+
+export interface IssuedTokens {
+  accessToken: string;
+  refreshToken?: string;
+  expiresIn: number; // seconds
+  familyId: string;
+}
+
+/**
+ * Issue a new access token (and optionally a refresh token)
+ */
+export async function issueTokens(store: OAuthStore, options: IssueTokensOptions): Promise<IssuedTokens> {
+  const familyId = options.familyId || randomBytes(16).toString('hex');
+  const now = Date.now();
+  const accessExpiresAt = new Date(now + options.accessTokenMaxAge);
+
+  try {
+    const accessToken = options.accessTokenSigner
+      ? await options.accessTokenSigner({
+          clientId: options.clientId,
+          userId: options.userId,
+          scope: options.scope,
+          resource: options.resource,
+          expiresAt: accessExpiresAt,
+        })
+      : generateToken();
+
+    const token = {
+      clientId: options.clientId,
+      userId: options.userId,
+      scope: options.scope,
+      resource: options.resource,
+      familyId,
+      createdAt: now,
+    };
+
+    await store.saveAccessToken(hashToken(accessToken), { ...token, expiresAt: accessExpiresAt.getTime() });
+
+    let refreshToken: string | undefined;
+    if (options.includeRefreshToken) {
+      refreshToken = generateToken();
+      await store.saveRefreshToken(hashToken(refreshToken), {
+        ...token,
+        expiresAt: now + options.refreshTokenMaxAge,
+      });
+    }
+
+    log.debug('Tokens issued', { clientId: options.clientId, familyId });
+
+    return {
+      accessToken,
+      refreshToken,
+      expiresIn: Math.floor(options.accessTokenMaxAge / 1000),
+      familyId,
+    };
+  } catch (error) {
+    log.error('Failed to issue tokens', { err: error });
+    throw new Error('Failed to issue tokens');
+  }
+}
+
+export type RefreshTokenResult =
+  | { status: 'valid'; token: StoredRefreshToken }
+  | { status: 'reused'; token: StoredRefreshToken }
+  | { status: 'invalid' };
+
+/**
+ * Consume a refresh token (single-use)
+ *
+ * Marks the token as used atomically, so concurrent refreshes with the
+ * same token can never both succeed. A token that exists but was already
+ * used is reported as 'reused' so the caller can revoke its family.
+ */
+export async function consumeRefreshToken(store: OAuthStore, refreshToken: string): Promise<RefreshTokenResult> {
+  const tokenHash = hashToken(refreshToken);
+
+  try {
+    const token = await store.useRefreshToken(tokenHash);
+    if (token) {
+      return { status: 'valid', token };
+    }
+
+    const existing = await store.getRefreshToken(tokenHash);
+    if (existing?.usedAt) {
+      log.warn('Refresh token reuse detected', { clientId: existing.clientId, familyId: existing.familyId });
+      return { status: 'reused', token: existing };
+    }
+
+    log.debug('Refresh token not found, expired or revoked');
+    return { status: 'invalid' };
+  } catch (error) {
+    log.error('Failed to consume refresh token', { err: error });
+    return { status: 'invalid' };
+  }
+}
+
+/**
+ * Revoke every access and refresh token in a family
+ */
+export async function revokeTokenFamily(store: OAuthStore, familyId: string): Promise<void> {
+  try {
+    await store.revokeTokens({ familyId });
+    log.info('Token family revoked', { familyId });
+  } catch (error) {
+    log.error('Failed to revoke token family', { err: error });
+  }
+}
+
+/**
+ * List token families that still have a usable token, latest first
+ */
+export async function listTokenFamilies(store: OAuthStore, limit = 100): Promise<TokenFamily[]> {
+  return store.listTokenFamilies(limit);
+}
+
+/**
+ * Look up an access token
+ * Returns null if token doesn't exist, is expired or is revoked
+ */
+export async function getAccessToken(store: OAuthStore, accessToken: string): Promise<StoredAccessToken | null> {
+  try {
+    return await store.getAccessToken(hashToken(accessToken));
+  } catch (error) {
+    log.error('Failed to look up access token', { err: error });
+    return null;
+  }
+}
+
+/**
+ * Look up a refresh token without consuming it
+ * Returns null if token doesn't exist (used, expired and revoked tokens are returned)
+ */
+export async function getRefreshToken(store: OAuthStore, refreshToken: string): Promise<StoredRefreshToken | null> {
+  try {
+    return await store.getRefreshToken(hashToken(refreshToken));
+  } catch (error) {
+    log.error('Failed to look up refresh token', { err: error });
+    return null;
+  }
+}
+
+/**
+ * Revoke every access and refresh token issued to a client
+ * Used to cut off a single client without affecting the others
+ */
+export async function revokeClientTokens(store: OAuthStore, clientId: string): Promise<number> {
+  try {
+    const revoked = await store.revokeTokens({ clientId });
+    log.info('Client tokens revoked', { clientId });
+    return revoked;
+  } catch (error) {
+    log.error('Failed to revoke client tokens', { err: error });
+    throw new Error('Failed to revoke client tokens');
+  }
+}
+
+/**
+ * Revoke a single access token
+ */
+export async function revokeAccessToken(store: OAuthStore, accessToken: string): Promise<void> {
+  try {
+    await store.revokeAccessToken(hashToken(accessToken));
+    log.info('Access token revoked');
+  } catch (error) {
+    log.error('Failed to revoke access token', { err: error });
+    throw new Error('Failed to revoke access token');
+  }
+}
+
+/**
+ * Revoke every access and refresh token issued for a user
+ */
+export async function revokeUserTokens(store: OAuthStore, userId: string): Promise<number> {
+  try {
+    const revoked = await store.revokeTokens({ userId });
+    log.info('User tokens revoked', { userId });
+    return revoked;
+  } catch (error) {
+    log.error('Failed to revoke user tokens', { err: error });
+    throw new Error('Failed to revoke user tokens');
+  }
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { buildProvisioningUri, generateTotp, generateTotpSecret, verifyTotp } from './totp.js';
+
+// RFC 6238 Appendix B: the ASCII secret '12345678901234567890', base32-encoded
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+describe('TOTP', () => {
+  it('matches the RFC 6238 test vectors (last 6 digits)', () => {
+    expect(generateTotp(RFC_SECRET, 59 * 1000)).toBe('287082');
+    expect(generateTotp(RFC_SECRET, 1111111109 * 1000)).toBe('081804');
+    expect(generateTotp(RFC_SECRET, 1234567890 * 1000)).toBe('005924');
+  });
+
+  it('accepts codes from the neighbouring time steps only', () => {
+    const now = 1234567890 * 1000;
+    const step = Math.floor(now / 30000);
+
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, now), now)).toBe(step);
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, now - 30000), now)).toBe(step - 1);
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, now + 30000), now)).toBe(step + 1);
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, now - 60000), now)).toBeUndefined();
+  });
+
+  it('rejects malformed codes', () => {
+    const now = 1234567890 * 1000;
+
+    expect(verifyTotp(RFC_SECRET, '005 924', now)).toBeDefined();
+    expect(verifyTotp(RFC_SECRET, '05924', now)).toBeUndefined();
+    expect(verifyTotp(RFC_SECRET, '0059240', now)).toBeUndefined();
+    expect(verifyTotp(RFC_SECRET, 'abcdef', now)).toBeUndefined();
+  });
+
+  it('generates 160-bit base32 secrets', () => {
+    const secret = generateTotpSecret();
+
+    expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+    expect(generateTotpSecret()).not.toBe(secret);
+  });
+
+  it('builds provisioning URIs for authenticator apps', () => {
+    const uri = new URL(buildProvisioningUri(RFC_SECRET, 'example.com', 'alice@example.com'));
+
+    expect(uri.protocol).toBe('otpauth:');
+    expect(uri.host).toBe('totp');
+    expect(decodeURIComponent(uri.pathname)).toBe('/example.com:alice@example.com');
+    expect(Object.fromEntries(uri.searchParams)).toEqual({
+      secret: RFC_SECRET,
+      issuer: 'example.com',
+      algorithm: 'SHA1',
+      digits: '6',
+      period: '30',
+    });
+  });
+});
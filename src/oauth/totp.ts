@@ -0,0 +1,137 @@
+/**
+ * RFC 6238: TOTP (Time-Based One-Time Password)
+ *
+ * HMAC-SHA1, 6 digits, 30-second steps: the defaults every authenticator
+ * app supports. Secrets are base32-encoded (RFC 4648) for provisioning URIs.
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+const STEP_SECONDS = 30;
+const DIGITS = 6;
+const ALLOWED_DRIFT_STEPS = 1; // Accept the previous and next code too (clock drift)
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+/**
+ * Encode bytes as base32 (no padding)
+ */
+function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+}
+
+/**
+ * Decode base32 (case-insensitive, padding and spaces ignored)
+ */
+function base32Decode(input: string): Buffer {
+  const cleaned = input.toUpperCase().replace(/[\s=]/g, '');
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error('Invalid base32 character');
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+}
+
+/**
+ * Generate a TOTP secret (160 bits, as recommended by RFC 4226)
+ */
+export function generateTotpSecret(): string {
+  return base32Encode(randomBytes(20));
+}
+
+/**
+ * Time step for a Unix timestamp in milliseconds
+ */
+function timeStep(now: number): number {
+  return Math.floor(now / 1000 / STEP_SECONDS);
+}
+
+/**
+ * Compute the code for a time step (RFC 4226 Section 5.3)
+ */
+function generateCode(secret: string, step: number): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+
+  const hmac = createHmac('sha1', base32Decode(secret)).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+
+  return (binary % 10 ** DIGITS).toString().padStart(DIGITS, '0');
+}
+
+/**
+ * Get the current code for a secret
+ */
+export function generateTotp(secret: string, now = Date.now()): string {
+  return generateCode(secret, timeStep(now));
+}
+
+/**
+ * Check a code against a secret
+ * Returns the matching time step (to reject replays), or undefined
+ */
+export function verifyTotp(secret: string, code: string, now = Date.now()): number | undefined {
+  const normalized = code.replace(/\s/g, '');
+  if (!/^\d+$/.test(normalized) || normalized.length !== DIGITS) {
+    return undefined;
+  }
+
+  const current = timeStep(now);
+  let matchedStep: number | undefined;
+
+  // Check every step in the window so timing doesn't reveal which one matched
+  for (let step = current - ALLOWED_DRIFT_STEPS; step <= current + ALLOWED_DRIFT_STEPS; step++) {
+    const expected = Buffer.from(generateCode(secret, step));
+    if (timingSafeEqual(expected, Buffer.from(normalized)) && matchedStep === undefined) {
+      matchedStep = step;
+    }
+  }
+
+  return matchedStep;
+}
+
+/**
+ * Build the otpauth:// URI that authenticator apps scan
+ * (Key Uri Format: https://github.com/google/google-authenticator/wiki/Key-Uri-Format)
+ */
+export function buildProvisioningUri(secret: string, issuer: string, accountName: string): string {
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: String(DIGITS),
+    period: String(STEP_SECONDS),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
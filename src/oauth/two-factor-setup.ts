@@ -0,0 +1,212 @@
+/**
+ * Two-Factor Setup Page
+ *
+ * GET /account/two-factor
+ *
+ * For the logged-in user:
+ * - Not enrolled → show a new secret and its otpauth:// provisioning URI
+ * - Enrolled → offer to turn two-factor authentication off
+ *
+ * POST /account/two-factor
+ *
+ * - action=enable: confirm the enrollment with a code from the app, then
+ *   show the recovery codes (once)
+ * - action=disable: remove the enrollment (requires a current code or a
+ *   recovery code)
+ *
+ * Only mounted when OAuthConfig.twoFactor is set.
+ */
+
+import { randomBytes } from 'crypto';
+import type { Request, Response } from 'express';
+import { getUserById } from './users.js';
+import { renderLoginForm } from './login.js';
+import { getLoginLockedUntil, recordLoginFailure, formatLockoutMessage } from './lockout.js';
+import {
+  createTotpEnrollment,
+  decryptTotpSecret,
+  disableTotp,
+  enableTotp,
+  encryptTotpSecret,
+  hasTotp,
+  verifyTwoFactorCode,
+} from './two-factor.js';
+import { logAuthEvent } from '../utils/audit-log.js';
+import { getLogger } from '../utils/logger.js';
+import type { OAuthConfig, OAuthStore, User } from '../types/index.js';
+
+const log = getLogger('two-factor');
+
+const SETUP_PATH = '/account/two-factor';
+const SETUP_EXPIRATION_MS = 10 * 60 * 1000; // 10 minutes
+
+/**
+ * Render the setup page
+ */
+function renderSetupPage(
+  res: Response,
+  options: {
+    user: User;
+    setupId: string;
+    enrolled: boolean;
+    secret?: string;
+    provisioningUri?: string;
+    recoveryCodes?: string[];
+    error?: string;
+  }
+): void {
+  res.render('two-factor-setup', {
+    username: options.user.username,
+    setupId: options.setupId,
+    enrolled: options.enrolled,
+    secret: options.secret || null,
+    provisioningUri: options.provisioningUri || null,
+    recoveryCodes: options.recoveryCodes || null,
+    error: options.error || null,
+  });
+}
+
+/**
+ * Start (or continue) a setup for the user and render the page
+ */
+async function showSetup(
+  req: Request,
+  res: Response,
+  config: OAuthConfig,
+  store: OAuthStore,
+  user: User,
+  error?: string
+): Promise<void> {
+  const setupId = randomBytes(16).toString('base64url');
+
+  if (await hasTotp(store, user.id)) {
+    req.session.pendingTwoFactorSetup = { id: setupId, createdAt: Date.now() };
+    renderSetupPage(res, { user, setupId, enrolled: true, error });
+    return;
+  }
+
+  // Keep the pending secret after a wrong code, so the user doesn't have to rescan
+  const pending = req.session.pendingTwoFactorSetup;
+  const retrySecret = error && pending?.encryptedSecret
+    ? decryptTotpSecret(config, pending.encryptedSecret)
+    : undefined;
+  const { secret, provisioningUri } = createTotpEnrollment(config, user.username, retrySecret);
+
+  req.session.pendingTwoFactorSetup = {
+    id: setupId,
+    encryptedSecret: encryptTotpSecret(config, secret),
+    createdAt: Date.now(),
+  };
+
+  renderSetupPage(res, { user, setupId, enrolled: false, secret, provisioningUri, error });
+}
+
+/**
+ * Create two-factor setup page handler (GET)
+ */
+export function createTwoFactorSetupHandler(config: OAuthConfig, store: OAuthStore) {
+  return async function handleTwoFactorSetup(req: Request, res: Response): Promise<void> {
+    try {
+      const user = req.session.userId ? await getUserById(store, req.session.userId) : undefined;
+      if (!user) {
+        renderLoginForm(res, { error: null, originalUrl: SETUP_PATH });
+        return;
+      }
+
+      await showSetup(req, res, config, store, user);
+    } catch (error) {
+      log.error('Two-factor setup page failed', { err: error });
+      res.status(500).send('Internal server error');
+    }
+  };
+}
+
+/**
+ * Create two-factor setup form handler (POST)
+ */
+export function createTwoFactorSetupFormHandler(config: OAuthConfig, store: OAuthStore) {
+  return async function handleTwoFactorSetupForm(req: Request, res: Response): Promise<void> {
+    try {
+      const { setup_id, action, code } = req.body;
+      const pending = req.session.pendingTwoFactorSetup;
+
+      const user = req.session.userId ? await getUserById(store, req.session.userId) : undefined;
+      if (!user) {
+        renderLoginForm(res, { error: null, originalUrl: SETUP_PATH });
+        return;
+      }
+
+      if (
+        !pending ||
+        typeof setup_id !== 'string' ||
+        pending.id !== setup_id ||
+        Date.now() - pending.createdAt > SETUP_EXPIRATION_MS
+      ) {
+        res.redirect(SETUP_PATH);
+        return;
+      }
+
+      const typedCode = typeof code === 'string' ? code : '';
+
+      if (action === 'enable' && pending.encryptedSecret && !(await hasTotp(store, user.id))) {
+        const secret = decryptTotpSecret(config, pending.encryptedSecret);
+        const recoveryCodes = await enableTotp(store, config, user.id, secret, typedCode);
+
+        if (!recoveryCodes) {
+          await showSetup(req, res, config, store, user, 'Invalid code. Check the time on your device and try again.');
+          return;
+        }
+
+        delete req.session.pendingTwoFactorSetup;
+
+        await logAuthEvent(store, 'two_factor_enabled', req, {
+          success: true,
+          metadata: { userId: user.id, username: user.username },
+        });
+
+        renderSetupPage(res, { user, setupId: '', enrolled: true, recoveryCodes });
+        return;
+      }
+
+      if (action === 'disable') {
+        // Wrong codes count towards the lockout, like at login
+        const ip = req.ip || req.socket.remoteAddress || undefined;
+        const lockedUntil = await getLoginLockedUntil(store, config, user.username, ip);
+        if (lockedUntil) {
+          res.status(429);
+          await showSetup(req, res, config, store, user, formatLockoutMessage(lockedUntil));
+          return;
+        }
+
+        const method = typedCode ? await verifyTwoFactorCode(store, config, user.id, typedCode) : undefined;
+        if (!method) {
+          await logAuthEvent(store, 'two_factor_failure', req, {
+            success: false,
+            errorMessage: 'Invalid two-factor code',
+            metadata: { userId: user.id, username: user.username, action: 'disable' },
+          });
+          await recordLoginFailure(store, config, user.username, ip);
+
+          await showSetup(req, res, config, store, user, 'Invalid code');
+          return;
+        }
+
+        await disableTotp(store, user.id);
+        delete req.session.pendingTwoFactorSetup;
+
+        await logAuthEvent(store, 'two_factor_disabled', req, {
+          success: true,
+          metadata: { userId: user.id, username: user.username, method },
+        });
+
+        res.redirect(SETUP_PATH);
+        return;
+      }
+
+      res.redirect(SETUP_PATH);
+    } catch (error) {
+      log.error('Two-factor setup failed', { err: error });
+      res.status(500).send('Internal server error');
+    }
+  };
+}
@@ -0,0 +1,79 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createMemoryStore } from '../storage/memory.js';
+import { generateTotp } from './totp.js';
+import { createTotpEnrollment, disableTotp, enableTotp, hasTotp, verifyTwoFactorCode } from './two-factor.js';
+import type { OAuthConfig } from '../types/index.js';
+
+const STEP = 30 * 1000;
+
+function testConfig(): OAuthConfig {
+  return {
+    serverUrl: 'https://mcp.example.com',
+    database: createMemoryStore(),
+    clientId: 'client',
+    clientSecret: 'secret',
+    sessionSecret: 'test-session-secret-with-enough-length',
+  };
+}
+
+describe('two-factor authentication', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  async function enroll() {
+    const store = createMemoryStore();
+    const config = testConfig();
+    const { secret, provisioningUri } = createTotpEnrollment(config, 'alice');
+    const recoveryCodes = await enableTotp(store, config, 'user', secret, generateTotp(secret));
+    return { store, config, secret, provisioningUri, recoveryCodes: recoveryCodes as string[] };
+  }
+
+  it('enrolls only with a valid code and stores the secret encrypted', async () => {
+    const store = createMemoryStore();
+    const config = testConfig();
+    const { secret, provisioningUri } = createTotpEnrollment(config, 'alice');
+
+    expect(provisioningUri).toContain('issuer=mcp.example.com');
+    const staleCode = generateTotp(secret, Date.now() - 10 * STEP);
+    expect(await enableTotp(store, config, 'user', secret, staleCode)).toBeUndefined();
+    expect(await hasTotp(store, 'user')).toBe(false);
+
+    const recoveryCodes = await enableTotp(store, config, 'user', secret, generateTotp(secret));
+    expect(recoveryCodes).toHaveLength(10);
+    expect(await hasTotp(store, 'user')).toBe(true);
+
+    const stored = await store.getTotp('user');
+    expect(stored?.encryptedSecret).not.toContain(secret);
+    expect(stored?.recoveryCodeHashes).not.toContain(recoveryCodes?.[0]);
+  });
+
+  it('accepts each TOTP code once', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const { store, config, secret } = await enroll();
+
+    // The code used to enroll can't log in
+    expect(await verifyTwoFactorCode(store, config, 'user', generateTotp(secret))).toBeUndefined();
+
+    vi.advanceTimersByTime(STEP);
+    const code = generateTotp(secret);
+    expect(await verifyTwoFactorCode(store, config, 'user', code)).toBe('totp');
+    expect(await verifyTwoFactorCode(store, config, 'user', code)).toBeUndefined();
+  });
+
+  it('accepts each recovery code once, however it is typed', async () => {
+    const { store, config, recoveryCodes } = await enroll();
+    const typed = recoveryCodes[0].toUpperCase().replace('-', ' ');
+
+    expect(await verifyTwoFactorCode(store, config, 'user', typed)).toBe('recovery_code');
+    expect(await verifyTwoFactorCode(store, config, 'user', recoveryCodes[0])).toBeUndefined();
+    expect(await verifyTwoFactorCode(store, config, 'user', recoveryCodes[1])).toBe('recovery_code');
+  });
+
+  it('rejects codes for users without an enrollment', async () => {
+    const { store, config, secret } = await enroll();
+
+    expect(await disableTotp(store, 'user')).toBe(true);
+    expect(await verifyTwoFactorCode(store, config, 'user', generateTotp(secret, Date.now() + STEP))).toBeUndefined();
+  });
+});
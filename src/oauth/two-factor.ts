@@ -0,0 +1,152 @@
+/**
+ * Two-Factor Authentication Storage
+ *
+ * Per-user TOTP enrollment with single-use recovery codes:
+ * - TOTP secrets are encrypted with the session secret (they have to be
+ *   readable to check codes, so they can't be hashed)
+ * - Recovery codes are stored as SHA-256 hashes and removed once used
+ * - An accepted TOTP code can't be used again (replay protection)
+ */
+
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+import { generateTotpSecret, verifyTotp, buildProvisioningUri } from './totp.js';
+import { hashToken } from './tokens.js';
+import { getLogger } from '../utils/logger.js';
+import type { OAuthConfig, OAuthStore } from '../types/index.js';
+
+const log = getLogger('two-factor');
+
+const DEFAULT_RECOVERY_CODE_COUNT = 10;
+
+/**
+ * Derive the AES key for TOTP secrets from the session secret
+ */
+function encryptionKey(config: OAuthConfig): Buffer {
+  return createHash('sha256').update(`totp:${config.sessionSecret}`).digest();
+}
+
+/**
+ * Encrypt a TOTP secret (AES-256-GCM, format: iv.tag.ciphertext)
+ */
+export function encryptTotpSecret(config: OAuthConfig, secret: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', encryptionKey(config), iv);
+  const encrypted = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+  return [iv, cipher.getAuthTag(), encrypted].map((part) => part.toString('base64url')).join('.');
+}
+
+/**
+ * Decrypt a TOTP secret
+ */
+export function decryptTotpSecret(config: OAuthConfig, encryptedSecret: string): string {
+  const [iv, tag, encrypted] = encryptedSecret.split('.').map((part) => Buffer.from(part, 'base64url'));
+  const decipher = createDecipheriv('aes-256-gcm', encryptionKey(config), iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+}
+
+/**
+ * Normalize a recovery code as typed (case and dashes don't matter)
+ */
+function normalizeRecoveryCode(code: string): string {
+  return code.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Generate recovery codes (format: xxxxx-xxxxx, 40 random bits each)
+ */
+function generateRecoveryCodes(count: number): string[] {
+  return Array.from({ length: count }, () => {
+    const code = randomBytes(5).toString('hex');
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+  });
+}
+
+/**
+ * Start a TOTP enrollment
+ * Returns a secret (new unless given) and its provisioning URI; nothing is
+ * stored until the user confirms with a code (see enableTotp)
+ */
+export function createTotpEnrollment(
+  config: OAuthConfig,
+  accountName: string,
+  secret = generateTotpSecret()
+): { secret: string; provisioningUri: string } {
+  const issuer = config.twoFactor?.issuer || new URL(config.serverUrl).host;
+  return { secret, provisioningUri: buildProvisioningUri(secret, issuer, accountName) };
+}
+
+/**
+ * Check whether a user has enrolled in TOTP
+ */
+export async function hasTotp(store: OAuthStore, userId: string): Promise<boolean> {
+  return (await store.getTotp(userId)) !== undefined;
+}
+
+/**
+ * Finish a TOTP enrollment once the user entered a valid code
+ * Returns the recovery codes (shown once), or undefined if the code was wrong
+ */
+export async function enableTotp(
+  store: OAuthStore,
+  config: OAuthConfig,
+  userId: string,
+  secret: string,
+  code: string
+): Promise<string[] | undefined> {
+  const step = verifyTotp(secret, code);
+  if (step === undefined) {
+    return undefined;
+  }
+
+  const recoveryCodes = generateRecoveryCodes(config.twoFactor?.recoveryCodeCount ?? DEFAULT_RECOVERY_CODE_COUNT);
+
+  await store.saveTotp({
+    userId,
+    encryptedSecret: encryptTotpSecret(config, secret),
+    recoveryCodeHashes: recoveryCodes.map((recoveryCode) => hashToken(normalizeRecoveryCode(recoveryCode))),
+    lastUsedStep: step,
+    createdAt: Date.now(),
+  });
+
+  log.info('TOTP enabled', { userId });
+  return recoveryCodes;
+}
+
+/**
+ * Check a TOTP code or recovery code for a user
+ * Returns how the user authenticated, or undefined if the code was wrong
+ */
+export async function verifyTwoFactorCode(
+  store: OAuthStore,
+  config: OAuthConfig,
+  userId: string,
+  code: string
+): Promise<'totp' | 'recovery_code' | undefined> {
+  const totp = await store.getTotp(userId);
+  if (!totp) {
+    return undefined;
+  }
+
+  const step = verifyTotp(decryptTotpSecret(config, totp.encryptedSecret), code);
+  if (step !== undefined) {
+    return (await store.useTotpStep(userId, step)) ? 'totp' : undefined;
+  }
+
+  const normalized = normalizeRecoveryCode(code);
+  if (normalized.length === 10 && (await store.useRecoveryCode(userId, hashToken(normalized)))) {
+    log.warn('Recovery code used', { userId });
+    return 'recovery_code';
+  }
+
+  return undefined;
+}
+
+/**
+ * Remove a user's TOTP enrollment (e.g. lost device, admin operation)
+ */
+export async function disableTotp(store: OAuthStore, userId: string): Promise<boolean> {
+  const deleted = await store.deleteTotp(userId);
+  log.info('TOTP disabled', { userId });
+  return deleted;
+}
@@ -0,0 +1,148 @@
+/**
+ * User Account Storage
+ *
+ * Stores user accounts (username/email + bcrypt hash).
+ * The legacy single-password setup (OAuthConfig.passwordHash) is mapped
+ * to an 'owner' account, so every session and token has a subject.
+ */
+
+import { randomUUID } from 'crypto';
+import bcrypt from 'bcrypt';
+import { revokeUserTokens } from './tokens.js';
+import { revokeUserSessions } from './sessions.js';
+import { getLogger } from '../utils/logger.js';
+import type { OAuthConfig, OAuthStore, User, UserRecord } from '../types/index.js';
+
+const log = getLogger('users');
+
+export const OWNER_USERNAME = 'owner';
+
+const BCRYPT_ROUNDS = 10;
+
+// Compared against when the user doesn't exist, so response time
+// doesn't reveal which usernames are registered
+const DUMMY_HASH = '$2b$10$N9qo8uLOickgx2ZMRZoMyeIjZAgcfl7p92ldGxad68LJZdL17lhWy';
+
+function toUser(record: UserRecord): User {
+  return {
+    id: record.id,
+    username: record.username,
+    email: record.email,
+    createdAt: record.createdAt,
+  };
+}
+
+/**
+ * Create a user account
+ */
+export async function createUser(
+  store: OAuthStore,
+  options: { username: string; email?: string; password: string }
+): Promise<User> {
+  const user: UserRecord = {
+    id: randomUUID(),
+    username: options.username,
+    email: options.email?.toLowerCase(),
+    passwordHash: await bcrypt.hash(options.password, BCRYPT_ROUNDS),
+    createdAt: Date.now(),
+  };
+
+  try {
+    await store.createUser(user);
+
+    log.info('User created', { userId: user.id, username: options.username });
+    return toUser(user);
+  } catch (error) {
+    log.error('Failed to create user', { err: error });
+    throw new Error('Failed to create user');
+  }
+}
+
+/**
+ * Get a user by ID
+ */
+export async function getUserById(store: OAuthStore, userId: string): Promise<User | undefined> {
+  try {
+    const user = await store.getUser(userId);
+    return user ? toUser(user) : undefined;
+  } catch (error) {
+    log.error('Failed to get user', { err: error });
+    return undefined;
+  }
+}
+
+/**
+ * List all users
+ */
+export async function listUsers(store: OAuthStore): Promise<User[]> {
+  const users = await store.listUsers();
+  return users.map(toUser);
+}
+
+/**
+ * Update a user's password
+ */
+export async function setUserPassword(store: OAuthStore, userId: string, password: string): Promise<void> {
+  const passwordHash = await bcrypt.hash(password, BCRYPT_ROUNDS);
+  await store.setUserPasswordHash(userId, passwordHash);
+  log.info('Password updated', { userId });
+}
+
+/**
+ * Delete a user account and revoke every token and session issued for it
+ */
+export async function deleteUser(store: OAuthStore, userId: string): Promise<boolean> {
+  await revokeUserTokens(store, userId);
+  await store.deleteTotp(userId);
+  await revokeUserSessions(store, userId);
+  const deleted = await store.deleteUser(userId);
+  log.info('User deleted', { userId });
+  return deleted;
+}
+
+/**
+ * Verify login credentials (username or email + password)
+ * Returns the user if valid, undefined otherwise
+ */
+export async function verifyUserCredentials(
+  store: OAuthStore,
+  login: string,
+  password: string
+): Promise<User | undefined> {
+  const user = await store.findUserByLogin(login);
+  const passwordValid = await bcrypt.compare(password, user ? user.passwordHash : DUMMY_HASH);
+
+  if (!user || !passwordValid) {
+    return undefined;
+  }
+
+  return toUser(user);
+}
+
+/**
+ * Check whether a user may use the admin dashboard and APIs
+ * (OAuthConfig.admin.users, default: the owner account)
+ */
+export function isAdmin(config: OAuthConfig, user: User): boolean {
+  const admins = (config.admin?.users || [OWNER_USERNAME]).map((username) => username.toLowerCase());
+  return admins.includes(user.username.toLowerCase());
+}
+
+/**
+ * Ensure the 'owner' account exists for the single-password setup
+ * Keeps its hash in sync with OAuthConfig.passwordHash
+ */
+export async function ensureOwnerUser(store: OAuthStore, passwordHash: string): Promise<void> {
+  try {
+    await store.upsertUser({
+      id: randomUUID(),
+      username: OWNER_USERNAME,
+      passwordHash,
+      createdAt: Date.now(),
+    });
+
+    log.debug('Owner account synced with passwordHash');
+  } catch (error) {
+    log.error('Failed to sync owner account', { err: error });
+  }
+}
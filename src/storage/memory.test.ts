@@ -0,0 +1,107 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createMemoryStore } from './memory.js';
+import type { StoredAuthCode } from '../types/index.js';
+
+function authCode(code: string, expiresAt: number): StoredAuthCode {
+  return {
+    code,
+    clientId: 'client',
+    redirectUri: 'http://localhost:3000/callback',
+    codeChallenge: 'challenge',
+    codeChallengeMethod: 'S256',
+    createdAt: Date.now(),
+    expiresAt,
+  };
+}
+
+describe('createMemoryStore', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('deletes an authorization code only once', async () => {
+    const store = createMemoryStore();
+    await store.saveAuthCode(authCode('abc', Date.now() + 60_000));
+
+    expect(await store.getAuthCode('abc')).toMatchObject({ clientId: 'client' });
+    expect(await Promise.all([store.deleteAuthCode('abc'), store.deleteAuthCode('abc')])).toEqual([true, false]);
+    expect(await store.getAuthCode('abc')).toBeNull();
+  });
+
+  it('does not return expired codes and tokens', async () => {
+    const store = createMemoryStore();
+    const past = Date.now() - 1;
+    await store.saveAuthCode(authCode('expired', past));
+    await store.saveAccessToken('hash', { clientId: 'client', familyId: 'f', createdAt: past, expiresAt: past });
+
+    expect(await store.getAuthCode('expired')).toBeNull();
+    expect(await store.getAccessToken('hash')).toBeNull();
+  });
+
+  it('prunes expired codes and tokens as new ones are saved', async () => {
+    vi.useFakeTimers();
+    const store = createMemoryStore();
+    const expiresAt = Date.now() + 1000;
+    await store.saveAuthCode(authCode('old', expiresAt));
+    await store.saveRefreshToken('old', { clientId: 'client', familyId: 'f', createdAt: Date.now(), expiresAt });
+
+    vi.advanceTimersByTime(2 * 60 * 1000);
+    await store.saveAuthCode(authCode('new', Date.now() + 60_000));
+
+    // Pruned, not just hidden: refresh tokens are returned even when expired
+    expect(await store.getRefreshToken('old')).toBeNull();
+    expect(await store.deleteAuthCode('old')).toBe(false);
+    expect(await store.deleteAuthCode('new')).toBe(true);
+  });
+
+  it('uses a refresh token only once', async () => {
+    const store = createMemoryStore();
+    await store.saveRefreshToken('hash', {
+      clientId: 'client',
+      familyId: 'f',
+      createdAt: Date.now(),
+      expiresAt: Date.now() + 60_000,
+    });
+
+    const [first, second] = await Promise.all([store.useRefreshToken('hash'), store.useRefreshToken('hash')]);
+    expect(first).toMatchObject({ familyId: 'f' });
+    expect(second).toBeNull();
+    expect((await store.getRefreshToken('hash'))?.usedAt).toBeDefined();
+  });
+
+  it('revokes every token in a family', async () => {
+    const store = createMemoryStore();
+    const token = { clientId: 'client', familyId: 'f', createdAt: Date.now(), expiresAt: Date.now() + 60_000 };
+    await store.saveAccessToken('access', token);
+    await store.saveRefreshToken('refresh', token);
+
+    await store.revokeTokens({ familyId: 'f' });
+
+    expect(await store.getAccessToken('access')).toBeNull();
+    expect(await store.useRefreshToken('refresh')).toBeNull();
+  });
+
+  it('keeps consent grants per resource', async () => {
+    const store = createMemoryStore();
+    await store.saveGrant({ userId: 'user', clientId: 'client', resource: 'https://a.example.com', scope: 's' });
+    await store.saveGrant({ userId: 'user', clientId: 'client', resource: 'https://b.example.com', scope: 's' });
+
+    expect(await store.getGrant('user', 'client', 'https://a.example.com')).toMatchObject({ scope: 's' });
+    expect(await store.getGrant('user', 'client', 'https://c.example.com')).toBeUndefined();
+
+    await store.deleteGrant('user', 'client');
+    expect(await store.getGrant('user', 'client', 'https://a.example.com')).toBeUndefined();
+    expect(await store.getGrant('user', 'client', 'https://b.example.com')).toBeUndefined();
+  });
+
+  it('counts rate limit hits per window', async () => {
+    vi.useFakeTimers();
+    const store = createMemoryStore();
+
+    expect((await store.incrementRateLimit('key', 1000)).hits).toBe(1);
+    expect((await store.incrementRateLimit('key', 1000)).hits).toBe(2);
+
+    vi.advanceTimersByTime(1001);
+    expect((await store.incrementRateLimit('key', 1000)).hits).toBe(1);
+  });
+});
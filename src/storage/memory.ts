@@ -0,0 +1,574 @@
+/**
+ * In-Memory Storage Backend
+ *
+ * Keeps everything in process memory, for small single-user servers
+ * and tests that shouldn't need PostgreSQL. Data is lost on restart and
+ * isn't shared between instances.
+ *
+ * Expired codes and tokens are pruned as new ones are saved (at most once
+ * a minute), so a long-running server doesn't grow without bound.
+ */
+
+import session from 'express-session';
+import type {
+  AuthLogEntry,
+  LoginLockout,
+  OAuthStore,
+  RateLimitHit,
+  StoredAccessToken,
+  StoredAuthCode,
+  StoredDeviceCode,
+  StoredGrant,
+  StoredRefreshToken,
+  StoredSigningKey,
+  StoredTotp,
+  RegisteredClient,
+  TokenFamily,
+  UserSession,
+  UserRecord,
+} from '../types/index.js';
+
+const MAX_AUTH_EVENTS = 10000; // Oldest events are dropped beyond this
+const PRUNE_INTERVAL_MS = 60 * 1000; // 1 minute
+
+/**
+ * Create a storage backend that keeps everything in memory
+ */
+export function createMemoryStore(): OAuthStore {
+  const authCodes = new Map<string, StoredAuthCode>();
+  const deviceCodes = new Map<string, StoredDeviceCode>();
+  const clients = new Map<string, RegisteredClient>();
+  const accessTokens = new Map<string, StoredAccessToken & { revokedAt?: number }>();
+  const refreshTokens = new Map<string, StoredRefreshToken>();
+  const users = new Map<string, UserRecord>();
+  const grants = new Map<string, StoredGrant>();
+  const signingKeys = new Map<string, StoredSigningKey>();
+  const authEvents: AuthLogEntry[] = [];
+  let nextAuthEventId = 1;
+  const loginLockouts = new Map<string, LoginLockout>();
+  const totps = new Map<string, StoredTotp>();
+  const userSessions = new Map<string, UserSession>();
+  const rateLimits = new Map<string, RateLimitHit>();
+  let prunedAt = 0;
+
+  const grantKey = (userId: string, clientId: string, resource: string) => `${userId}\n${clientId}\n${resource}`;
+
+  function findUserByUsername(username: string): UserRecord | undefined {
+    return Array.from(users.values()).find((user) => user.username.toLowerCase() === username.toLowerCase());
+  }
+
+  /**
+   * Delete expired authorization codes, device codes and tokens
+   * Expired entries can never be used again, so nothing else needs them
+   */
+  function pruneExpired(): void {
+    const now = Date.now();
+    if (now - prunedAt < PRUNE_INTERVAL_MS) {
+      return;
+    }
+    prunedAt = now;
+
+    for (const entries of [authCodes, deviceCodes, accessTokens, refreshTokens]) {
+      for (const [key, entry] of entries) {
+        if (entry.expiresAt <= now) {
+          entries.delete(key);
+        }
+      }
+    }
+  }
+
+  return {
+    createSessionStore() {
+      return new session.MemoryStore();
+    },
+
+    // Authorization codes
+
+    async saveAuthCode(code) {
+      pruneExpired();
+      authCodes.set(code.code, { ...code });
+    },
+
+    async getAuthCode(code) {
+      const stored = authCodes.get(code);
+      if (!stored || stored.expiresAt <= Date.now()) {
+        return null;
+      }
+      return { ...stored };
+    },
+
+    async deleteAuthCode(code) {
+      return authCodes.delete(code);
+    },
+
+    // Device codes
+
+    async saveDeviceCode(deviceCode) {
+      pruneExpired();
+      deviceCodes.set(deviceCode.deviceCodeHash, { ...deviceCode });
+    },
+
+    async getDeviceCodeByUserCode(userCode) {
+      const deviceCode = Array.from(deviceCodes.values()).find((stored) => stored.userCode === userCode);
+      if (!deviceCode || deviceCode.expiresAt <= Date.now()) {
+        return undefined;
+      }
+      return { ...deviceCode };
+    },
+
+    async pollDeviceCode(deviceCodeHash, polledAt) {
+      const deviceCode = deviceCodes.get(deviceCodeHash);
+      if (!deviceCode) {
+        return undefined;
+      }
+      const previous = { ...deviceCode };
+      deviceCode.lastPolledAt = polledAt;
+      return previous;
+    },
+
+    async setDeviceCodeInterval(deviceCodeHash, interval) {
+      const deviceCode = deviceCodes.get(deviceCodeHash);
+      if (deviceCode) {
+        deviceCode.interval = interval;
+      }
+    },
+
+    async decideDeviceCode(userCode, status, userId) {
+      const deviceCode = Array.from(deviceCodes.values()).find((stored) => stored.userCode === userCode);
+      if (!deviceCode || deviceCode.status !== 'pending' || deviceCode.expiresAt <= Date.now()) {
+        return false;
+      }
+      deviceCode.status = status;
+      deviceCode.userId = userId;
+      return true;
+    },
+
+    async deleteDeviceCode(deviceCodeHash) {
+      return deviceCodes.delete(deviceCodeHash);
+    },
+
+    async deleteExpiredDeviceCodes() {
+      const now = Date.now();
+      for (const [deviceCodeHash, deviceCode] of deviceCodes) {
+        if (deviceCode.expiresAt <= now) {
+          deviceCodes.delete(deviceCodeHash);
+        }
+      }
+    },
+
+    // Clients
+
+    async saveClient(client) {
+      if (clients.has(client.client_id)) {
+        throw new Error(`Client already exists: ${client.client_id}`);
+      }
+      clients.set(client.client_id, { ...client });
+    },
+
+    async getClient(clientId) {
+      const client = clients.get(clientId);
+      return client ? { ...client } : undefined;
+    },
+
+    async updateClient(client) {
+      if (clients.has(client.client_id)) {
+        clients.set(client.client_id, { ...client });
+      }
+    },
+
+    async deleteClient(clientId) {
+      return clients.delete(clientId);
+    },
+
+    async countClients() {
+      return clients.size;
+    },
+
+    async listClients() {
+      return Array.from(clients.values())
+        .sort((a, b) => b.createdAt - a.createdAt)
+        .map((client) => ({ ...client }));
+    },
+
+    // Tokens
+
+    async saveAccessToken(tokenHash, token) {
+      pruneExpired();
+      accessTokens.set(tokenHash, { ...token });
+    },
+
+    async getAccessToken(tokenHash) {
+      const token = accessTokens.get(tokenHash);
+      if (!token || token.revokedAt || token.expiresAt <= Date.now()) {
+        return null;
+      }
+      const { revokedAt: _revokedAt, ...active } = token;
+      return active;
+    },
+
+    async revokeAccessToken(tokenHash) {
+      const token = accessTokens.get(tokenHash);
+      if (token && !token.revokedAt) {
+        token.revokedAt = Date.now();
+      }
+    },
+
+    async saveRefreshToken(tokenHash, token) {
+      pruneExpired();
+      refreshTokens.set(tokenHash, { ...token });
+    },
+
+    async getRefreshToken(tokenHash) {
+      const token = refreshTokens.get(tokenHash);
+      return token ? { ...token } : null;
+    },
+
+    async useRefreshToken(tokenHash) {
+      // Checked and updated synchronously, so concurrent refreshes can't both succeed
+      const token = refreshTokens.get(tokenHash);
+      if (!token || token.usedAt || token.revokedAt || token.expiresAt <= Date.now()) {
+        return null;
+      }
+      token.usedAt = Date.now();
+      return { ...token };
+    },
+
+    async revokeTokens(filter) {
+      if (filter.familyId === undefined && filter.clientId === undefined && filter.userId === undefined) {
+        throw new Error('revokeTokens requires a filter');
+      }
+
+      const matches = (token: StoredAccessToken & { revokedAt?: number }) =>
+        !token.revokedAt &&
+        (filter.familyId === undefined || token.familyId === filter.familyId) &&
+        (filter.clientId === undefined || token.clientId === filter.clientId) &&
+        (filter.userId === undefined || token.userId === filter.userId);
+
+      const now = Date.now();
+      let revoked = 0;
+      for (const token of accessTokens.values()) {
+        if (matches(token)) {
+          token.revokedAt = now;
+          revoked++;
+        }
+      }
+      for (const token of refreshTokens.values()) {
+        if (matches(token)) {
+          token.revokedAt = now;
+        }
+      }
+
+      return revoked;
+    },
+
+    async listTokenFamilies(limit) {
+      const now = Date.now();
+      const families = new Map<string, TokenFamily>();
+      const active = [
+        ...Array.from(accessTokens.values()).filter((token) => !token.revokedAt && token.expiresAt > now),
+        ...Array.from(refreshTokens.values()).filter(
+          (token) => !token.revokedAt && !token.usedAt && token.expiresAt > now
+        ),
+      ];
+
+      for (const token of active) {
+        const family = families.get(token.familyId);
+        if (!family || token.createdAt > family.issuedAt) {
+          families.set(token.familyId, {
+            familyId: token.familyId,
+            clientId: token.clientId,
+            userId: token.userId,
+            scope: token.scope,
+            issuedAt: token.createdAt,
+            expiresAt: Math.max(token.expiresAt, family?.expiresAt ?? 0),
+          });
+        } else {
+          family.expiresAt = Math.max(family.expiresAt, token.expiresAt);
+        }
+      }
+
+      return Array.from(families.values())
+        .sort((a, b) => b.issuedAt - a.issuedAt)
+        .slice(0, limit);
+    },
+
+    // Users
+
+    async createUser(user) {
+      const email = user.email?.toLowerCase();
+      const taken = Array.from(users.values()).some(
+        (existing) =>
+          existing.username.toLowerCase() === user.username.toLowerCase() ||
+          (email !== undefined && existing.email === email)
+      );
+      if (taken) {
+        throw new Error(`User already exists: ${user.username}`);
+      }
+      users.set(user.id, { ...user });
+    },
+
+    async upsertUser(user) {
+      const existing = findUserByUsername(user.username);
+      if (existing) {
+        existing.passwordHash = user.passwordHash;
+        return;
+      }
+      users.set(user.id, { ...user });
+    },
+
+    async getUser(userId) {
+      const user = users.get(userId);
+      return user ? { ...user } : undefined;
+    },
+
+    async findUserByLogin(login) {
+      const user =
+        findUserByUsername(login) ||
+        Array.from(users.values()).find((candidate) => candidate.email === login.toLowerCase());
+      return user ? { ...user } : undefined;
+    },
+
+    async listUsers() {
+      return Array.from(users.values())
+        .sort((a, b) => a.createdAt - b.createdAt)
+        .map((user) => ({ ...user }));
+    },
+
+    async setUserPasswordHash(userId, passwordHash) {
+      const user = users.get(userId);
+      if (user) {
+        user.passwordHash = passwordHash;
+      }
+    },
+
+    async deleteUser(userId) {
+      return users.delete(userId);
+    },
+
+    // Consent grants
+
+    async getGrant(userId, clientId, resource) {
+      const grant = grants.get(grantKey(userId, clientId, resource));
+      return grant ? { ...grant } : undefined;
+    },
+
+    async saveGrant(grant) {
+      const key = grantKey(grant.userId, grant.clientId, grant.resource);
+      const now = Date.now();
+      grants.set(key, {
+        ...grant,
+        createdAt: grants.get(key)?.createdAt || now,
+        updatedAt: now,
+      });
+    },
+
+    async deleteGrant(userId, clientId) {
+      for (const [key, grant] of grants) {
+        if (grant.userId === userId && grant.clientId === clientId) {
+          grants.delete(key);
+        }
+      }
+    },
+
+    // Signing keys
+
+    async listSigningKeys(since) {
+      return Array.from(signingKeys.values())
+        .filter((key) => key.createdAt > since)
+        .sort((a, b) => b.createdAt - a.createdAt)
+        .map((key) => ({ ...key }));
+    },
+
+    async saveSigningKey(key) {
+      signingKeys.set(key.kid, { ...key });
+    },
+
+    async deleteSigningKeys(before) {
+      for (const [kid, key] of signingKeys) {
+        if (key.createdAt <= before) {
+          signingKeys.delete(kid);
+        }
+      }
+    },
+
+    // Two-factor authentication
+
+    async getTotp(userId) {
+      const totp = totps.get(userId);
+      return totp ? { ...totp, recoveryCodeHashes: [...totp.recoveryCodeHashes] } : undefined;
+    },
+
+    async saveTotp(totp) {
+      totps.set(totp.userId, { ...totp, recoveryCodeHashes: [...totp.recoveryCodeHashes] });
+    },
+
+    async deleteTotp(userId) {
+      return totps.delete(userId);
+    },
+
+    async useTotpStep(userId, step) {
+      const totp = totps.get(userId);
+      if (!totp || (totp.lastUsedStep !== undefined && totp.lastUsedStep >= step)) {
+        return false;
+      }
+      totp.lastUsedStep = step;
+      return true;
+    },
+
+    async useRecoveryCode(userId, codeHash) {
+      const totp = totps.get(userId);
+      const index = totp ? totp.recoveryCodeHashes.indexOf(codeHash) : -1;
+      if (!totp || index === -1) {
+        return false;
+      }
+      totp.recoveryCodeHashes.splice(index, 1);
+      return true;
+    },
+
+    // User sessions
+
+    async saveUserSession(userSession) {
+      userSessions.set(userSession.id, { ...userSession });
+    },
+
+    async touchUserSession(id, lastSeenAt) {
+      const userSession = userSessions.get(id);
+      if (!userSession || userSession.expiresAt <= Date.now()) {
+        return false;
+      }
+      userSession.lastSeenAt = lastSeenAt;
+      return true;
+    },
+
+    async listUserSessions(userId) {
+      const now = Date.now();
+      return Array.from(userSessions.values())
+        .filter(
+          (userSession) => (userId === undefined || userSession.userId === userId) && userSession.expiresAt > now
+        )
+        .sort((a, b) => b.lastSeenAt - a.lastSeenAt)
+        .map((userSession) => ({ ...userSession }));
+    },
+
+    async deleteUserSession(id) {
+      return userSessions.delete(id);
+    },
+
+    async deleteUserSessions(userId) {
+      let deleted = 0;
+      for (const [id, userSession] of userSessions) {
+        if (userSession.userId === userId) {
+          userSessions.delete(id);
+          deleted++;
+        }
+      }
+      return deleted;
+    },
+
+    async deleteExpiredUserSessions() {
+      const now = Date.now();
+      for (const [id, userSession] of userSessions) {
+        if (userSession.expiresAt <= now) {
+          userSessions.delete(id);
+        }
+      }
+    },
+
+    // Login lockouts
+
+    async getLoginLockout(key) {
+      const lockout = loginLockouts.get(key);
+      return lockout ? { ...lockout } : undefined;
+    },
+
+    async recordLoginFailure(key, resetBefore) {
+      const now = Date.now();
+      const lockout = loginLockouts.get(key);
+      if (!lockout || lockout.lastFailureAt < resetBefore) {
+        loginLockouts.set(key, { key, failures: 1, lastFailureAt: now });
+        return 1;
+      }
+      lockout.failures++;
+      lockout.lastFailureAt = now;
+      return lockout.failures;
+    },
+
+    async setLoginLockedUntil(key, lockedUntil) {
+      const lockout = loginLockouts.get(key);
+      if (lockout) {
+        lockout.lockedUntil = lockedUntil;
+      }
+    },
+
+    async clearLoginFailures(key) {
+      loginLockouts.delete(key);
+    },
+
+    // Rate limits
+
+    async incrementRateLimit(key, windowMs) {
+      const now = Date.now();
+      const hit = rateLimits.get(key);
+      if (!hit || hit.resetAt <= now) {
+        const fresh = { hits: 1, resetAt: now + windowMs };
+        rateLimits.set(key, fresh);
+        return { ...fresh };
+      }
+      hit.hits++;
+      return { ...hit };
+    },
+
+    async decrementRateLimit(key) {
+      const hit = rateLimits.get(key);
+      if (hit && hit.hits > 0) {
+        hit.hits--;
+      }
+    },
+
+    async resetRateLimit(key) {
+      rateLimits.delete(key);
+    },
+
+    async deleteExpiredRateLimits() {
+      const now = Date.now();
+      for (const [key, hit] of rateLimits) {
+        if (hit.resetAt <= now) {
+          rateLimits.delete(key);
+        }
+      }
+    },
+
+    // Audit log
+
+    async saveAuthEvent(entry) {
+      authEvents.push({ ...entry, id: nextAuthEventId++ });
+      if (authEvents.length > MAX_AUTH_EVENTS) {
+        authEvents.splice(0, authEvents.length - MAX_AUTH_EVENTS);
+      }
+    },
+
+    async queryAuthEvents(query) {
+      return authEvents
+        .filter(
+          (entry) =>
+            (query.event === undefined || entry.event === query.event) &&
+            (query.clientId === undefined || entry.clientId === query.clientId) &&
+            (query.ip === undefined || entry.ip === query.ip) &&
+            (query.success === undefined || entry.success === query.success) &&
+            (query.since === undefined || entry.createdAt >= query.since) &&
+            (query.until === undefined || entry.createdAt < query.until) &&
+            (query.before === undefined || (entry.id ?? 0) < query.before)
+        )
+        .reverse()
+        .slice(0, query.limit)
+        .map((entry) => ({ ...entry }));
+    },
+
+    async deleteAuthEvents(before) {
+      const remaining = authEvents.filter((entry) => entry.createdAt >= before);
+      const deleted = authEvents.length - remaining.length;
+      authEvents.splice(0, authEvents.length, ...remaining);
+      return deleted;
+    },
+  };
+}
@@ -0,0 +1,907 @@
+/**
+ * PostgreSQL Storage Backend
+ *
+ * Default OAuthStore: persists everything in PostgreSQL (schema managed
+ * by runMigrations) and keeps sessions in the session table.
+ */
+
+import session from 'express-session';
+import connectPgSimple from 'connect-pg-simple';
+import type { Pool } from 'pg';
+import { runMigrations, tablePrefixer } from '../utils/migrations.js';
+import type {
+  AuthEvent,
+  AuthLogEntry,
+  OAuthStore,
+  RegisteredClient,
+  StoredAccessToken,
+  StoredDeviceCode,
+  StoredRefreshToken,
+  TokenFamily,
+  UserRecord,
+  UserSession,
+} from '../types/index.js';
+
+const PgSession = connectPgSimple(session);
+
+function toTime(value: Date | string): number {
+  return new Date(value).getTime();
+}
+
+function toDate(value: number | undefined): Date | null {
+  return value === undefined ? null : new Date(value);
+}
+
+// Rows as returned by pg: TIMESTAMP columns come back as Dates, nullable columns as null
+
+interface ClientRow {
+  client_id: string;
+  client_secret_hash: string;
+  client_secret_expires_at: Date | null;
+  previous_client_secret_hash: string | null;
+  previous_client_secret_expires_at: Date | null;
+  client_name: string | null;
+  logo_uri: string | null;
+  client_uri: string | null;
+  redirect_uris: string[];
+  token_endpoint_auth_method: string;
+  grant_types: string[];
+  response_types: string[];
+  scope: string | null;
+  created_at: Date;
+  registration_access_token_hash: string | null;
+}
+
+interface AccessTokenRow {
+  client_id: string;
+  user_id: string | null;
+  scope: string;
+  resource: string | null;
+  family_id: string;
+  created_at: Date;
+  expires_at: Date;
+}
+
+interface RefreshTokenRow extends AccessTokenRow {
+  used_at: Date | null;
+  revoked_at: Date | null;
+}
+
+interface DeviceCodeRow {
+  device_code_hash: string;
+  user_code: string;
+  client_id: string;
+  scope: string | null;
+  resource: string | null;
+  status: StoredDeviceCode['status'];
+  user_id: string | null;
+  poll_interval: number;
+  last_polled_at: Date | null;
+  created_at: Date;
+  expires_at: Date;
+}
+
+interface TokenFamilyRow {
+  family_id: string;
+  client_id: string;
+  user_id: string | null;
+  scope: string | null;
+  created_at: Date;
+  expires_at: Date;
+}
+
+interface AuthEventRow {
+  id: number;
+  event: AuthEvent;
+  ip: string | null;
+  user_agent: string | null;
+  client_id: string | null;
+  success: boolean;
+  error_message: string | null;
+  metadata: Record<string, unknown> | null;
+  created_at: Date;
+}
+
+interface UserRow {
+  id: string;
+  username: string;
+  email: string | null;
+  password_hash: string;
+  created_at: Date;
+}
+
+interface UserSessionRow {
+  id: string;
+  user_id: string;
+  ip: string | null;
+  user_agent: string | null;
+  created_at: Date;
+  last_seen_at: Date;
+  expires_at: Date;
+}
+
+function rowToClient(row: ClientRow): RegisteredClient {
+  return {
+    client_id: row.client_id,
+    clientSecretHash: row.client_secret_hash,
+    clientSecretExpiresAt: row.client_secret_expires_at ? toTime(row.client_secret_expires_at) : undefined,
+    previousClientSecretHash: row.previous_client_secret_hash || undefined,
+    previousClientSecretExpiresAt: row.previous_client_secret_expires_at
+      ? toTime(row.previous_client_secret_expires_at)
+      : undefined,
+    client_name: row.client_name || undefined,
+    logo_uri: row.logo_uri || undefined,
+    client_uri: row.client_uri || undefined,
+    redirect_uris: row.redirect_uris,
+    token_endpoint_auth_method: row.token_endpoint_auth_method,
+    grant_types: row.grant_types,
+    response_types: row.response_types,
+    scope: row.scope || undefined,
+    createdAt: toTime(row.created_at),
+    registrationAccessTokenHash: row.registration_access_token_hash || undefined,
+  };
+}
+
+function rowToAccessToken(row: AccessTokenRow): StoredAccessToken {
+  return {
+    clientId: row.client_id,
+    userId: row.user_id || undefined,
+    scope: row.scope,
+    resource: row.resource || undefined,
+    familyId: row.family_id,
+    createdAt: toTime(row.created_at),
+    expiresAt: toTime(row.expires_at),
+  };
+}
+
+function rowToRefreshToken(row: RefreshTokenRow): StoredRefreshToken {
+  return {
+    ...rowToAccessToken(row),
+    usedAt: row.used_at ? toTime(row.used_at) : undefined,
+    revokedAt: row.revoked_at ? toTime(row.revoked_at) : undefined,
+  };
+}
+
+function rowToDeviceCode(row: DeviceCodeRow): StoredDeviceCode {
+  return {
+    deviceCodeHash: row.device_code_hash,
+    userCode: row.user_code,
+    clientId: row.client_id,
+    scope: row.scope || undefined,
+    resource: row.resource || undefined,
+    status: row.status,
+    userId: row.user_id || undefined,
+    interval: row.poll_interval,
+    lastPolledAt: row.last_polled_at ? toTime(row.last_polled_at) : undefined,
+    createdAt: toTime(row.created_at),
+    expiresAt: toTime(row.expires_at),
+  };
+}
+
+function rowToTokenFamily(row: TokenFamilyRow): TokenFamily {
+  return {
+    familyId: row.family_id,
+    clientId: row.client_id,
+    userId: row.user_id || undefined,
+    scope: row.scope || undefined,
+    issuedAt: toTime(row.created_at),
+    expiresAt: toTime(row.expires_at),
+  };
+}
+
+function rowToAuthEvent(row: AuthEventRow): AuthLogEntry {
+  return {
+    id: row.id,
+    event: row.event,
+    ip: row.ip || undefined,
+    userAgent: row.user_agent || undefined,
+    clientId: row.client_id || undefined,
+    success: row.success,
+    errorMessage: row.error_message || undefined,
+    metadata: row.metadata || undefined,
+    createdAt: toTime(row.created_at),
+  };
+}
+
+function rowToUser(row: UserRow): UserRecord {
+  return {
+    id: row.id,
+    username: row.username,
+    email: row.email || undefined,
+    passwordHash: row.password_hash,
+    createdAt: toTime(row.created_at),
+  };
+}
+
+function rowToUserSession(row: UserSessionRow): UserSession {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    ip: row.ip || undefined,
+    userAgent: row.user_agent || undefined,
+    createdAt: toTime(row.created_at),
+    lastSeenAt: toTime(row.last_seen_at),
+    expiresAt: toTime(row.expires_at),
+  };
+}
+
+/**
+ * Create a storage backend on a PostgreSQL pool
+ */
+export function createPostgresStore(pool: Pool, options: { tablePrefix?: string } = {}): OAuthStore {
+  const t = tablePrefixer(options.tablePrefix);
+
+  return {
+    async migrate() {
+      return runMigrations(pool, options);
+    },
+
+    createSessionStore() {
+      return new PgSession({
+        pool,
+        tableName: t('session'),
+        createTableIfMissing: true, // Auto-create table on first run
+        pruneSessionInterval: 60 * 15, // Cleanup expired sessions every 15 minutes
+      });
+    },
+
+    // Authorization codes
+
+    async saveAuthCode(code) {
+      await pool.query(
+        `INSERT INTO ${t('authorization_codes')}
+          (code, client_id, redirect_uri, code_challenge, code_challenge_method, scope, resource, user_id, expires_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+        [
+          code.code,
+          code.clientId,
+          code.redirectUri,
+          code.codeChallenge,
+          code.codeChallengeMethod,
+          code.scope,
+          code.resource || null,
+          code.userId,
+          new Date(code.expiresAt),
+        ]
+      );
+    },
+
+    async getAuthCode(code) {
+      const result = await pool.query(
+        `SELECT * FROM ${t('authorization_codes')}
+         WHERE code = $1 AND expires_at > NOW()`,
+        [code]
+      );
+
+      const row = result.rows[0];
+      if (!row) {
+        return null;
+      }
+
+      return {
+        code: row.code,
+        clientId: row.client_id,
+        redirectUri: row.redirect_uri,
+        codeChallenge: row.code_challenge,
+        codeChallengeMethod: row.code_challenge_method,
+        scope: row.scope,
+        resource: row.resource || undefined,
+        userId: row.user_id || undefined,
+        createdAt: toTime(row.created_at),
+        expiresAt: toTime(row.expires_at),
+      };
+    },
+
+    async deleteAuthCode(code) {
+      const result = await pool.query(`DELETE FROM ${t('authorization_codes')} WHERE code = $1`, [code]);
+      return (result.rowCount || 0) > 0;
+    },
+
+    // Device codes
+
+    async saveDeviceCode(deviceCode) {
+      await pool.query(
+        `INSERT INTO ${t('device_codes')}
+          (device_code_hash, user_code, client_id, scope, resource, status, poll_interval, created_at, expires_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+        [
+          deviceCode.deviceCodeHash,
+          deviceCode.userCode,
+          deviceCode.clientId,
+          deviceCode.scope || null,
+          deviceCode.resource || null,
+          deviceCode.status,
+          deviceCode.interval,
+          new Date(deviceCode.createdAt),
+          new Date(deviceCode.expiresAt),
+        ]
+      );
+    },
+
+    async getDeviceCodeByUserCode(userCode) {
+      const result = await pool.query<DeviceCodeRow>(
+        `SELECT * FROM ${t('device_codes')} WHERE user_code = $1 AND expires_at > NOW()`,
+        [userCode]
+      );
+      return result.rows[0] ? rowToDeviceCode(result.rows[0]) : undefined;
+    },
+
+    async pollDeviceCode(deviceCodeHash, polledAt) {
+      // The joined row is read before the update, so it has the previous poll time
+      const result = await pool.query<DeviceCodeRow>(
+        `UPDATE ${t('device_codes')} d SET last_polled_at = $2
+         FROM ${t('device_codes')} previous
+         WHERE d.device_code_hash = $1 AND previous.device_code_hash = $1
+         RETURNING previous.*`,
+        [deviceCodeHash, new Date(polledAt)]
+      );
+      return result.rows[0] ? rowToDeviceCode(result.rows[0]) : undefined;
+    },
+
+    async setDeviceCodeInterval(deviceCodeHash, interval) {
+      await pool.query(`UPDATE ${t('device_codes')} SET poll_interval = $2 WHERE device_code_hash = $1`, [
+        deviceCodeHash,
+        interval,
+      ]);
+    },
+
+    async decideDeviceCode(userCode, status, userId) {
+      const result = await pool.query(
+        `UPDATE ${t('device_codes')} SET status = $2, user_id = $3
+         WHERE user_code = $1 AND status = 'pending' AND expires_at > NOW()`,
+        [userCode, status, userId]
+      );
+      return (result.rowCount || 0) > 0;
+    },
+
+    async deleteDeviceCode(deviceCodeHash) {
+      const result = await pool.query(`DELETE FROM ${t('device_codes')} WHERE device_code_hash = $1`, [
+        deviceCodeHash,
+      ]);
+      return (result.rowCount || 0) > 0;
+    },
+
+    async deleteExpiredDeviceCodes() {
+      await pool.query(`DELETE FROM ${t('device_codes')} WHERE expires_at <= NOW()`);
+    },
+
+    // Clients
+
+    async saveClient(client) {
+      await pool.query(
+        `INSERT INTO ${t('oauth_clients')}
+          (client_id, client_secret_hash, client_name, redirect_uris, token_endpoint_auth_method, grant_types, response_types, scope, logo_uri, client_uri, registration_access_token_hash,
+           client_secret_expires_at, previous_client_secret_hash, previous_client_secret_expires_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)`,
+        [
+          client.client_id,
+          client.clientSecretHash,
+          client.client_name,
+          client.redirect_uris,
+          client.token_endpoint_auth_method,
+          client.grant_types,
+          client.response_types,
+          client.scope,
+          client.logo_uri,
+          client.client_uri,
+          client.registrationAccessTokenHash,
+          toDate(client.clientSecretExpiresAt),
+          client.previousClientSecretHash,
+          toDate(client.previousClientSecretExpiresAt),
+        ]
+      );
+    },
+
+    async getClient(clientId) {
+      const result = await pool.query<ClientRow>(`SELECT * FROM ${t('oauth_clients')} WHERE client_id = $1`, [
+        clientId,
+      ]);
+      return result.rows[0] ? rowToClient(result.rows[0]) : undefined;
+    },
+
+    async updateClient(client) {
+      await pool.query(
+        `UPDATE ${t('oauth_clients')} SET
+           client_secret_hash = $2, client_name = $3, redirect_uris = $4, token_endpoint_auth_method = $5,
+           grant_types = $6, response_types = $7, scope = $8, logo_uri = $9, client_uri = $10,
+           registration_access_token_hash = $11, client_secret_expires_at = $12,
+           previous_client_secret_hash = $13, previous_client_secret_expires_at = $14
+         WHERE client_id = $1`,
+        [
+          client.client_id,
+          client.clientSecretHash,
+          client.client_name,
+          client.redirect_uris,
+          client.token_endpoint_auth_method,
+          client.grant_types,
+          client.response_types,
+          client.scope,
+          client.logo_uri,
+          client.client_uri,
+          client.registrationAccessTokenHash,
+          toDate(client.clientSecretExpiresAt),
+          client.previousClientSecretHash,
+          toDate(client.previousClientSecretExpiresAt),
+        ]
+      );
+    },
+
+    async deleteClient(clientId) {
+      const result = await pool.query(`DELETE FROM ${t('oauth_clients')} WHERE client_id = $1`, [clientId]);
+      return (result.rowCount || 0) > 0;
+    },
+
+    async countClients() {
+      const result = await pool.query(`SELECT COUNT(*)::int AS count FROM ${t('oauth_clients')}`);
+      return result.rows[0].count;
+    },
+
+    async listClients() {
+      const result = await pool.query<ClientRow>(`SELECT * FROM ${t('oauth_clients')} ORDER BY created_at DESC`);
+      return result.rows.map(rowToClient);
+    },
+
+    // Tokens
+
+    async saveAccessToken(tokenHash, token) {
+      await pool.query(
+        `INSERT INTO ${t('access_tokens')} (token_hash, client_id, user_id, scope, resource, family_id, expires_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+        [
+          tokenHash,
+          token.clientId,
+          token.userId,
+          token.scope,
+          token.resource || null,
+          token.familyId,
+          new Date(token.expiresAt),
+        ]
+      );
+    },
+
+    async getAccessToken(tokenHash) {
+      const result = await pool.query<AccessTokenRow>(
+        `SELECT * FROM ${t('access_tokens')}
+         WHERE token_hash = $1 AND expires_at > NOW() AND revoked_at IS NULL`,
+        [tokenHash]
+      );
+      return result.rows[0] ? rowToAccessToken(result.rows[0]) : null;
+    },
+
+    async revokeAccessToken(tokenHash) {
+      await pool.query(
+        `UPDATE ${t('access_tokens')} SET revoked_at = NOW() WHERE token_hash = $1 AND revoked_at IS NULL`,
+        [tokenHash]
+      );
+    },
+
+    async saveRefreshToken(tokenHash, token) {
+      await pool.query(
+        `INSERT INTO ${t('refresh_tokens')} (token_hash, client_id, user_id, scope, resource, family_id, expires_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+        [
+          tokenHash,
+          token.clientId,
+          token.userId,
+          token.scope,
+          token.resource || null,
+          token.familyId,
+          new Date(token.expiresAt),
+        ]
+      );
+    },
+
+    async getRefreshToken(tokenHash) {
+      const result = await pool.query<RefreshTokenRow>(`SELECT * FROM ${t('refresh_tokens')} WHERE token_hash = $1`, [
+        tokenHash,
+      ]);
+      return result.rows[0] ? rowToRefreshToken(result.rows[0]) : null;
+    },
+
+    async useRefreshToken(tokenHash) {
+      // Single UPDATE, so concurrent refreshes with the same token can't both succeed
+      const result = await pool.query<RefreshTokenRow>(
+        `UPDATE ${t('refresh_tokens')} SET used_at = NOW()
+         WHERE token_hash = $1 AND used_at IS NULL AND revoked_at IS NULL AND expires_at > NOW()
+         RETURNING *`,
+        [tokenHash]
+      );
+      return result.rows[0] ? rowToRefreshToken(result.rows[0]) : null;
+    },
+
+    async revokeTokens(filter) {
+      const conditions: string[] = [];
+      const values: string[] = [];
+      for (const [column, value] of [
+        ['family_id', filter.familyId],
+        ['client_id', filter.clientId],
+        ['user_id', filter.userId],
+      ]) {
+        if (value !== undefined) {
+          values.push(value);
+          conditions.push(`${column} = $${values.length}`);
+        }
+      }
+      if (conditions.length === 0) {
+        throw new Error('revokeTokens requires a filter');
+      }
+      const where = `${conditions.join(' AND ')} AND revoked_at IS NULL`;
+
+      const accessResult = await pool.query(
+        `UPDATE ${t('access_tokens')} SET revoked_at = NOW() WHERE ${where}`,
+        values
+      );
+      await pool.query(`UPDATE ${t('refresh_tokens')} SET revoked_at = NOW() WHERE ${where}`, values);
+
+      return accessResult.rowCount || 0;
+    },
+
+    async listTokenFamilies(limit) {
+      // Latest active token per family, with the family's last expiry
+      const result = await pool.query<TokenFamilyRow>(
+        `WITH active AS (
+           SELECT family_id, client_id, user_id, scope, created_at, expires_at FROM ${t('access_tokens')}
+           WHERE revoked_at IS NULL AND expires_at > NOW()
+           UNION ALL
+           SELECT family_id, client_id, user_id, scope, created_at, expires_at FROM ${t('refresh_tokens')}
+           WHERE revoked_at IS NULL AND used_at IS NULL AND expires_at > NOW()
+         ), families AS (
+           SELECT DISTINCT ON (family_id)
+             family_id, client_id, user_id, scope, created_at,
+             MAX(expires_at) OVER (PARTITION BY family_id) AS expires_at
+           FROM active
+           ORDER BY family_id, created_at DESC
+         )
+         SELECT * FROM families ORDER BY created_at DESC LIMIT $1`,
+        [limit]
+      );
+      return result.rows.map(rowToTokenFamily);
+    },
+
+    // Users
+
+    async createUser(user) {
+      await pool.query(
+        `INSERT INTO ${t('users')} (id, username, email, password_hash)
+         VALUES ($1, $2, $3, $4)`,
+        [user.id, user.username, user.email, user.passwordHash]
+      );
+    },
+
+    async upsertUser(user) {
+      await pool.query(
+        `INSERT INTO ${t('users')} (id, username, email, password_hash)
+         VALUES ($1, $2, $3, $4)
+         ON CONFLICT (username) DO UPDATE SET password_hash = EXCLUDED.password_hash`,
+        [user.id, user.username, user.email, user.passwordHash]
+      );
+    },
+
+    async getUser(userId) {
+      const result = await pool.query<UserRow>(`SELECT * FROM ${t('users')} WHERE id = $1`, [userId]);
+      return result.rows[0] ? rowToUser(result.rows[0]) : undefined;
+    },
+
+    async findUserByLogin(login) {
+      const result = await pool.query<UserRow>(
+        `SELECT * FROM ${t('users')} WHERE LOWER(username) = LOWER($1) OR email = LOWER($1) LIMIT 1`,
+        [login]
+      );
+      return result.rows[0] ? rowToUser(result.rows[0]) : undefined;
+    },
+
+    async listUsers() {
+      const result = await pool.query<UserRow>(`SELECT * FROM ${t('users')} ORDER BY created_at`);
+      return result.rows.map(rowToUser);
+    },
+
+    async setUserPasswordHash(userId, passwordHash) {
+      await pool.query(`UPDATE ${t('users')} SET password_hash = $1 WHERE id = $2`, [passwordHash, userId]);
+    },
+
+    async deleteUser(userId) {
+      const result = await pool.query(`DELETE FROM ${t('users')} WHERE id = $1`, [userId]);
+      return (result.rowCount || 0) > 0;
+    },
+
+    // Consent grants
+
+    async getGrant(userId, clientId, resource) {
+      const result = await pool.query(
+        `SELECT * FROM ${t('oauth_grants')} WHERE user_id = $1 AND client_id = $2 AND resource = $3`,
+        [userId, clientId, resource]
+      );
+
+      const row = result.rows[0];
+      if (!row) {
+        return undefined;
+      }
+
+      return {
+        userId: row.user_id,
+        clientId: row.client_id,
+        resource: row.resource,
+        scope: row.scope,
+        createdAt: toTime(row.created_at),
+        updatedAt: toTime(row.updated_at),
+      };
+    },
+
+    async saveGrant(grant) {
+      await pool.query(
+        `INSERT INTO ${t('oauth_grants')} (user_id, client_id, resource, scope)
+         VALUES ($1, $2, $3, $4)
+         ON CONFLICT (user_id, client_id, resource)
+         DO UPDATE SET scope = EXCLUDED.scope, updated_at = CURRENT_TIMESTAMP`,
+        [grant.userId, grant.clientId, grant.resource, grant.scope]
+      );
+    },
+
+    async deleteGrant(userId, clientId) {
+      await pool.query(`DELETE FROM ${t('oauth_grants')} WHERE user_id = $1 AND client_id = $2`, [
+        userId,
+        clientId,
+      ]);
+    },
+
+    // Signing keys
+
+    async listSigningKeys(since) {
+      const result = await pool.query(
+        `SELECT * FROM ${t('oauth_signing_keys')}
+         WHERE created_at > $1
+         ORDER BY created_at DESC`,
+        [new Date(since)]
+      );
+
+      return result.rows.map((row) => ({
+        kid: row.kid,
+        encryptedPrivateKey: row.private_key,
+        publicJwk: row.public_jwk,
+        createdAt: toTime(row.created_at),
+      }));
+    },
+
+    async saveSigningKey(key) {
+      await pool.query(
+        `INSERT INTO ${t('oauth_signing_keys')} (kid, private_key, public_jwk, created_at)
+         VALUES ($1, $2, $3, $4)`,
+        [key.kid, key.encryptedPrivateKey, JSON.stringify(key.publicJwk), new Date(key.createdAt)]
+      );
+    },
+
+    async deleteSigningKeys(before) {
+      await pool.query(`DELETE FROM ${t('oauth_signing_keys')} WHERE created_at <= $1`, [new Date(before)]);
+    },
+
+    // Two-factor authentication
+
+    async getTotp(userId) {
+      const result = await pool.query(`SELECT * FROM ${t('user_totp')} WHERE user_id = $1`, [userId]);
+      const row = result.rows[0];
+      if (!row) {
+        return undefined;
+      }
+
+      return {
+        userId: row.user_id,
+        encryptedSecret: row.secret,
+        recoveryCodeHashes: row.recovery_codes,
+        lastUsedStep: row.last_used_step !== null ? Number(row.last_used_step) : undefined,
+        createdAt: toTime(row.created_at),
+      };
+    },
+
+    async saveTotp(totp) {
+      await pool.query(
+        `INSERT INTO ${t('user_totp')} (user_id, secret, recovery_codes, last_used_step, created_at)
+         VALUES ($1, $2, $3, $4, $5)
+         ON CONFLICT (user_id) DO UPDATE SET
+           secret = EXCLUDED.secret,
+           recovery_codes = EXCLUDED.recovery_codes,
+           last_used_step = EXCLUDED.last_used_step,
+           created_at = EXCLUDED.created_at`,
+        [totp.userId, totp.encryptedSecret, totp.recoveryCodeHashes, totp.lastUsedStep ?? null, new Date(totp.createdAt)]
+      );
+    },
+
+    async deleteTotp(userId) {
+      const result = await pool.query(`DELETE FROM ${t('user_totp')} WHERE user_id = $1`, [userId]);
+      return (result.rowCount || 0) > 0;
+    },
+
+    async useTotpStep(userId, step) {
+      const result = await pool.query(
+        `UPDATE ${t('user_totp')} SET last_used_step = $2
+         WHERE user_id = $1 AND (last_used_step IS NULL OR last_used_step < $2)`,
+        [userId, step]
+      );
+      return (result.rowCount || 0) > 0;
+    },
+
+    async useRecoveryCode(userId, codeHash) {
+      const result = await pool.query(
+        `UPDATE ${t('user_totp')} SET recovery_codes = array_remove(recovery_codes, $2)
+         WHERE user_id = $1 AND $2 = ANY(recovery_codes)`,
+        [userId, codeHash]
+      );
+      return (result.rowCount || 0) > 0;
+    },
+
+    // User sessions
+
+    async saveUserSession(userSession) {
+      await pool.query(
+        `INSERT INTO ${t('user_sessions')} (id, user_id, ip, user_agent, created_at, last_seen_at, expires_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+        [
+          userSession.id,
+          userSession.userId,
+          userSession.ip || null,
+          userSession.userAgent || null,
+          new Date(userSession.createdAt),
+          new Date(userSession.lastSeenAt),
+          new Date(userSession.expiresAt),
+        ]
+      );
+    },
+
+    async touchUserSession(id, lastSeenAt) {
+      const result = await pool.query(
+        `UPDATE ${t('user_sessions')} SET last_seen_at = $2
+         WHERE id = $1 AND expires_at > NOW()`,
+        [id, new Date(lastSeenAt)]
+      );
+      return (result.rowCount || 0) > 0;
+    },
+
+    async listUserSessions(userId) {
+      const result = await pool.query<UserSessionRow>(
+        `SELECT * FROM ${t('user_sessions')}
+         WHERE ($1::text IS NULL OR user_id = $1) AND expires_at > NOW()
+         ORDER BY last_seen_at DESC`,
+        [userId ?? null]
+      );
+      return result.rows.map(rowToUserSession);
+    },
+
+    async deleteUserSession(id) {
+      const result = await pool.query(`DELETE FROM ${t('user_sessions')} WHERE id = $1`, [id]);
+      return (result.rowCount || 0) > 0;
+    },
+
+    async deleteUserSessions(userId) {
+      const result = await pool.query(`DELETE FROM ${t('user_sessions')} WHERE user_id = $1`, [userId]);
+      return result.rowCount || 0;
+    },
+
+    async deleteExpiredUserSessions() {
+      await pool.query(`DELETE FROM ${t('user_sessions')} WHERE expires_at <= NOW()`);
+    },
+
+    // Login lockouts
+
+    async getLoginLockout(key) {
+      const result = await pool.query(`SELECT * FROM ${t('login_lockouts')} WHERE key = $1`, [key]);
+      const row = result.rows[0];
+      if (!row) {
+        return undefined;
+      }
+
+      return {
+        key: row.key,
+        failures: row.failures,
+        lastFailureAt: toTime(row.last_failure_at),
+        lockedUntil: row.locked_until ? toTime(row.locked_until) : undefined,
+      };
+    },
+
+    async recordLoginFailure(key, resetBefore) {
+      // Single statement, so concurrent failures are all counted
+      const result = await pool.query(
+        `INSERT INTO ${t('login_lockouts')} AS l (key, failures, last_failure_at)
+         VALUES ($1, 1, NOW())
+         ON CONFLICT (key) DO UPDATE SET
+           failures = CASE WHEN l.last_failure_at < $2 THEN 1 ELSE l.failures + 1 END,
+           locked_until = CASE WHEN l.last_failure_at < $2 THEN NULL ELSE l.locked_until END,
+           last_failure_at = NOW()
+         RETURNING failures`,
+        [key, new Date(resetBefore)]
+      );
+      return result.rows[0].failures;
+    },
+
+    async setLoginLockedUntil(key, lockedUntil) {
+      await pool.query(`UPDATE ${t('login_lockouts')} SET locked_until = $2 WHERE key = $1`, [
+        key,
+        new Date(lockedUntil),
+      ]);
+    },
+
+    async clearLoginFailures(key) {
+      await pool.query(`DELETE FROM ${t('login_lockouts')} WHERE key = $1`, [key]);
+    },
+
+    // Rate limits
+
+    async incrementRateLimit(key, windowMs) {
+      // Single statement, so requests to every instance are counted
+      const now = Date.now();
+      const result = await pool.query(
+        `INSERT INTO ${t('rate_limits')} AS r (key, hits, reset_at)
+         VALUES ($1, 1, $3)
+         ON CONFLICT (key) DO UPDATE SET
+           hits = CASE WHEN r.reset_at <= $2 THEN 1 ELSE r.hits + 1 END,
+           reset_at = CASE WHEN r.reset_at <= $2 THEN $3 ELSE r.reset_at END
+         RETURNING hits, reset_at`,
+        [key, new Date(now), new Date(now + windowMs)]
+      );
+      const row = result.rows[0];
+      return { hits: row.hits, resetAt: toTime(row.reset_at) };
+    },
+
+    async decrementRateLimit(key) {
+      await pool.query(`UPDATE ${t('rate_limits')} SET hits = GREATEST(hits - 1, 0) WHERE key = $1`, [key]);
+    },
+
+    async resetRateLimit(key) {
+      await pool.query(`DELETE FROM ${t('rate_limits')} WHERE key = $1`, [key]);
+    },
+
+    async deleteExpiredRateLimits() {
+      await pool.query(`DELETE FROM ${t('rate_limits')} WHERE reset_at <= $1`, [new Date()]);
+    },
+
+    // Audit log
+
+    async saveAuthEvent(entry) {
+      await pool.query(
+        `INSERT INTO ${t('auth_logs')} (event, ip, user_agent, client_id, success, error_message, metadata)
+         VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+        [
+          entry.event,
+          entry.ip || null,
+          entry.userAgent || null,
+          entry.clientId || null,
+          entry.success,
+          entry.errorMessage || null,
+          entry.metadata ? JSON.stringify(entry.metadata) : null,
+        ]
+      );
+    },
+
+    async queryAuthEvents(query) {
+      const conditions: string[] = [];
+      const values: unknown[] = [];
+      for (const [condition, value] of [
+        ['event =', query.event],
+        ['client_id =', query.clientId],
+        ['ip =', query.ip],
+        ['success =', query.success],
+        ['created_at >=', toDate(query.since)],
+        ['created_at <', toDate(query.until)],
+        ['id <', query.before],
+      ] as const) {
+        if (value !== undefined && value !== null) {
+          values.push(value);
+          conditions.push(`${condition} $${values.length}`);
+        }
+      }
+
+      values.push(query.limit);
+      const result = await pool.query<AuthEventRow>(
+        `SELECT * FROM ${t('auth_logs')}
+         ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+         ORDER BY id DESC
+         LIMIT $${values.length}`,
+        values
+      );
+      return result.rows.map(rowToAuthEvent);
+    },
+
+    async deleteAuthEvents(before) {
+      const result = await pool.query(`DELETE FROM ${t('auth_logs')} WHERE created_at < $1`, [new Date(before)]);
+      return result.rowCount || 0;
+    },
+  };
+}
@@ -3,7 +3,9 @@
  */
 
 import type { Request } from 'express';
+import type { Store as SessionStore } from 'express-session';
 import type { Pool } from 'pg';
+import type { PublicJwk } from '../oauth/jwt.js';
 
 export interface AuthorizationRequest {
   client_id: string;
@@ -13,14 +15,19 @@ export interface AuthorizationRequest {
   code_challenge_method: string; // Should be 'S256'
   state?: string;
   scope?: string;
+  resource?: string; // RFC 8707 resource indicator (canonical form once validated)
 }
 
 export interface TokenRequest {
-  grant_type: string; // Should be 'authorization_code'
+  grant_type: string; // 'authorization_code', 'refresh_token', 'client_credentials' or the device_code grant URN
   code: string;
   redirect_uri: string;
   code_verifier: string;
   client_id: string;
+  refresh_token?: string;
+  device_code?: string;
+  scope?: string;
+  resource?: string; // RFC 8707 resource indicator
 }
 
 export interface StoredAuthCode {
@@ -30,8 +37,53 @@ export interface StoredAuthCode {
   codeChallenge: string;
   codeChallengeMethod: string;
   scope?: string;
+  resource?: string; // Resource (MCP server) the tokens will be bound to
+  userId?: string; // Subject (user who approved the request)
+  createdAt: number; // Unix timestamp
+  expiresAt: number; // Unix timestamp
+}
+
+export interface StoredAccessToken {
+  clientId: string;
+  userId?: string;
+  scope?: string;
+  resource?: string; // Audience; unset for tokens issued before resource indicators
+  familyId: string;
+  createdAt: number; // Unix timestamp
+  expiresAt: number; // Unix timestamp
+}
+
+/**
+ * Validated access token, attached to req.auth by createAuthMiddleware
+ */
+export interface AuthInfo {
+  clientId: string;
+  /** Subject: ID of the user the token was issued for */
+  userId?: string;
+  /** Granted scopes as issued (space-separated) */
+  scope?: string;
+  /** Granted scopes, parsed */
+  scopes: string[];
+  /** Resource (MCP server) the token was issued for */
+  resource?: string;
+  createdAt: number; // Unix timestamp
+  expiresAt: number; // Unix timestamp
+  /** Token family (opaque tokens only) */
+  familyId?: string;
+  /** JWT ID (JWT access tokens only) */
+  jti?: string;
+}
+
+export interface StoredRefreshToken {
+  clientId: string;
+  userId?: string;
+  scope?: string;
+  resource?: string; // Audience of the access tokens it refreshes
+  familyId: string;
   createdAt: number; // Unix timestamp
   expiresAt: number; // Unix timestamp
+  usedAt?: number; // Unix timestamp (set once rotated)
+  revokedAt?: number; // Unix timestamp
 }
 
 export interface OAuthError {
@@ -44,7 +96,74 @@ export interface TokenResponse {
   access_token: string;
   token_type: string;
   expires_in?: number;
+  refresh_token?: string;
+  scope?: string;
+}
+
+/**
+ * User account (password hash is never exposed)
+ */
+export interface User {
+  id: string;
+  username: string;
+  email?: string;
+  createdAt: number; // Unix timestamp
+}
+
+/**
+ * Device authorization request (RFC 8628), from issue until it's redeemed or expires
+ */
+export interface StoredDeviceCode {
+  deviceCodeHash: string; // SHA-256 of the device_code
+  userCode: string; // Normalized: upper case, no separator
+  clientId: string;
   scope?: string;
+  resource?: string; // Resource (MCP server) the tokens will be bound to
+  status: 'pending' | 'approved' | 'denied';
+  userId?: string; // User who approved or denied the request
+  interval: number; // Minimum seconds between polls
+  lastPolledAt?: number; // Unix timestamp
+  createdAt: number; // Unix timestamp
+  expiresAt: number; // Unix timestamp
+}
+
+/**
+ * Device authorization response (RFC 8628 Section 3.2)
+ */
+export interface DeviceAuthorizationResponse {
+  device_code: string;
+  user_code: string;
+  verification_uri: string;
+  verification_uri_complete: string;
+  expires_in: number; // Seconds
+  interval: number; // Seconds
+}
+
+/**
+ * Scopes a user approved for a client on the consent screen
+ */
+export interface StoredGrant {
+  userId: string;
+  clientId: string;
+  resource: string; // RFC 8707 resource the consent was given for
+  scope: string;
+  createdAt: number; // Unix timestamp
+  updatedAt: number; // Unix timestamp
+}
+
+/**
+ * RFC 7662: Token Introspection
+ */
+export interface IntrospectionResponse {
+  active: boolean;
+  scope?: string;
+  client_id?: string;
+  token_type?: string;
+  exp?: number; // Unix timestamp in seconds
+  iat?: number; // Unix timestamp in seconds
+  sub?: string;
+  aud?: string;
+  iss?: string;
 }
 
 /**
@@ -66,22 +185,39 @@ export interface ClientRegistrationRequest {
 
 export interface RegisteredClient {
   client_id: string;
-  client_secret: string;
+  /** Salted hash of the client secret (the raw secret is never stored) */
+  clientSecretHash: string;
+  /** When the secret stops working (undefined = never) */
+  clientSecretExpiresAt?: number;
+  /** Secret replaced by the last rotation, accepted until its grace period ends */
+  previousClientSecretHash?: string;
+  previousClientSecretExpiresAt?: number;
   client_name?: string;
+  logo_uri?: string;
+  client_uri?: string;
   redirect_uris: string[];
   token_endpoint_auth_method: string;
   grant_types: string[];
   response_types: string[];
   scope?: string;
   createdAt: number;
+  /** SHA-256 hash of the RFC 7592 registration access token */
+  registrationAccessTokenHash?: string;
 }
 
 export interface ClientRegistrationResponse {
   client_id: string;
-  client_secret: string;
+  /** Only present when the secret was just issued */
+  client_secret?: string;
   client_id_issued_at?: number;
   client_secret_expires_at?: number;
+  /** RFC 7592: token for reading/updating/deleting the registration */
+  registration_access_token?: string;
+  /** RFC 7592: client configuration endpoint */
+  registration_client_uri?: string;
   client_name?: string;
+  logo_uri?: string;
+  client_uri?: string;
   redirect_uris?: string[];
   token_endpoint_auth_method?: string;
   grant_types?: string[];
@@ -89,6 +225,597 @@ export interface ClientRegistrationResponse {
   scope?: string;
 }
 
+/**
+ * Authentication events recorded in the audit log
+ */
+export type AuthEvent =
+  | 'login_attempt'
+  | 'login_success'
+  | 'login_failure'
+  | 'logout'
+  | 'session_revoked'
+  | 'token_exchange'
+  | 'token_failure'
+  | 'token_refresh'
+  | 'client_credentials_grant'
+  | 'refresh_token_reuse'
+  | 'token_revocation'
+  | 'authorize_request'
+  | 'consent_granted'
+  | 'consent_denied'
+  | 'device_authorization'
+  | 'client_registration'
+  | 'two_factor_success'
+  | 'two_factor_failure'
+  | 'two_factor_enabled'
+  | 'two_factor_disabled'
+  | 'admin_action';
+
+export interface AuthLogEntry {
+  /** Assigned by the store (set on entries read back) */
+  id?: number;
+  event: AuthEvent;
+  ip?: string;
+  userAgent?: string;
+  clientId?: string;
+  success: boolean;
+  errorMessage?: string;
+  metadata?: Record<string, any>;
+  createdAt: number; // Unix timestamp
+}
+
+/**
+ * Filter for reading the audit log (newest events first)
+ */
+export interface AuthLogQuery {
+  event?: AuthEvent;
+  clientId?: string;
+  ip?: string;
+  success?: boolean;
+  since?: number; // Unix timestamp (inclusive)
+  until?: number; // Unix timestamp (exclusive)
+  /** Only events with a lower ID (pagination) */
+  before?: number;
+  limit: number;
+}
+
+/**
+ * Options for queryAuthLogs
+ */
+export interface AuthLogFilter {
+  event?: AuthEvent;
+  clientId?: string;
+  ip?: string;
+  success?: boolean;
+  since?: number | Date; // Inclusive
+  until?: number | Date; // Exclusive
+  /** Page size (default: 100, max: 1000) */
+  limit?: number;
+  /** nextCursor of the previous page */
+  cursor?: string;
+}
+
+/**
+ * One page of audit events, newest first
+ */
+export interface AuthLogPage {
+  events: AuthLogEntry[];
+  /** Cursor for the next (older) page; undefined on the last page */
+  nextCursor?: string;
+}
+
+/**
+ * User account including its bcrypt hash (storage only)
+ */
+export interface UserRecord extends User {
+  passwordHash: string;
+}
+
+/**
+ * A user's TOTP enrollment (RFC 6238)
+ */
+export interface StoredTotp {
+  userId: string;
+  /** TOTP secret, encrypted with the session secret */
+  encryptedSecret: string;
+  /** SHA-256 hashes of the unused recovery codes */
+  recoveryCodeHashes: string[];
+  /** Time step of the last accepted code (codes can't be replayed) */
+  lastUsedStep?: number;
+  createdAt: number; // Unix timestamp
+}
+
+/**
+ * Logged-in browser session (tracked alongside the express-session data)
+ */
+export interface UserSession {
+  /** SHA-256 hash of the express-session ID */
+  id: string;
+  userId: string;
+  ip?: string;
+  userAgent?: string;
+  createdAt: number; // Unix timestamp
+  lastSeenAt: number; // Unix timestamp
+  expiresAt: number; // Unix timestamp
+}
+
+/**
+ * Tokens sharing a family (one grant and its refreshes) with at least one
+ * token that is still usable
+ */
+export interface TokenFamily {
+  familyId: string;
+  clientId: string;
+  userId?: string;
+  scope?: string;
+  /** When the family's latest token was issued */
+  issuedAt: number; // Unix timestamp
+  /** When the family's last usable token expires */
+  expiresAt: number; // Unix timestamp
+}
+
+/**
+ * Failed login counter for one account or IP address
+ */
+export interface LoginLockout {
+  /** 'user:<login>' or 'ip:<address>' */
+  key: string;
+  failures: number;
+  lastFailureAt: number; // Unix timestamp
+  lockedUntil?: number; // Unix timestamp
+}
+
+/**
+ * Request count for one rate limit key
+ */
+export interface RateLimitHit {
+  hits: number;
+  resetAt: number; // Unix timestamp
+}
+
+/**
+ * JWT signing key (private key encrypted with the session secret)
+ */
+export interface StoredSigningKey {
+  kid: string;
+  encryptedPrivateKey: string;
+  publicJwk: PublicJwk;
+  createdAt: number; // Unix timestamp
+}
+
+export interface AuthCodeStore {
+  saveAuthCode(code: StoredAuthCode): Promise<void>;
+  /** Returns null if the code doesn't exist or is expired */
+  getAuthCode(code: string): Promise<StoredAuthCode | null>;
+  /** Returns false if the code was already deleted (redeemed) */
+  deleteAuthCode(code: string): Promise<boolean>;
+}
+
+export interface DeviceCodeStore {
+  saveDeviceCode(deviceCode: StoredDeviceCode): Promise<void>;
+  /** Returns undefined if the code doesn't exist or is expired */
+  getDeviceCodeByUserCode(userCode: string): Promise<StoredDeviceCode | undefined>;
+  /**
+   * Record a poll and return the code as it was before it (so lastPolledAt is
+   * the previous poll); expired codes are returned too, undefined if unknown
+   */
+  pollDeviceCode(deviceCodeHash: string, polledAt: number): Promise<StoredDeviceCode | undefined>;
+  setDeviceCodeInterval(deviceCodeHash: string, interval: number): Promise<void>;
+  /** Approve or deny a pending, unexpired code; returns false otherwise */
+  decideDeviceCode(userCode: string, status: 'approved' | 'denied', userId: string): Promise<boolean>;
+  /** Returns false if the code was already deleted (redeemed) */
+  deleteDeviceCode(deviceCodeHash: string): Promise<boolean>;
+  deleteExpiredDeviceCodes(): Promise<void>;
+}
+
+export interface ClientStore {
+  saveClient(client: RegisteredClient): Promise<void>;
+  getClient(clientId: string): Promise<RegisteredClient | undefined>;
+  /** Replace the stored client with the same client_id */
+  updateClient(client: RegisteredClient): Promise<void>;
+  deleteClient(clientId: string): Promise<boolean>;
+  /** Number of dynamically registered clients */
+  countClients(): Promise<number>;
+  /** Every dynamically registered client, newest first */
+  listClients(): Promise<RegisteredClient[]>;
+}
+
+/**
+ * Tokens are keyed by their SHA-256 hash; raw tokens never reach the store
+ */
+export interface TokenStore {
+  saveAccessToken(tokenHash: string, token: StoredAccessToken): Promise<void>;
+  /** Returns null if the token doesn't exist, is expired or is revoked */
+  getAccessToken(tokenHash: string): Promise<StoredAccessToken | null>;
+  revokeAccessToken(tokenHash: string): Promise<void>;
+  saveRefreshToken(tokenHash: string, token: StoredRefreshToken): Promise<void>;
+  /** Returns the token in any state (used, expired, revoked), null if unknown */
+  getRefreshToken(tokenHash: string): Promise<StoredRefreshToken | null>;
+  /**
+   * Atomically mark an active refresh token as used
+   * Returns null if it is unknown, used, expired or revoked
+   */
+  useRefreshToken(tokenHash: string): Promise<StoredRefreshToken | null>;
+  /**
+   * Revoke every access and refresh token matching the filter
+   * Returns the number of access tokens revoked
+   */
+  revokeTokens(filter: { familyId?: string; clientId?: string; userId?: string }): Promise<number>;
+  /** Token families with an unexpired, unrevoked (and for refresh tokens, unused) token, latest first */
+  listTokenFamilies(limit: number): Promise<TokenFamily[]>;
+}
+
+export interface UserStore {
+  /** Throws if the username or email is taken */
+  createUser(user: UserRecord): Promise<void>;
+  /** Insert, or update the password hash of the user with the same username */
+  upsertUser(user: UserRecord): Promise<void>;
+  getUser(userId: string): Promise<UserRecord | undefined>;
+  /** Case-insensitive match on username or email */
+  findUserByLogin(login: string): Promise<UserRecord | undefined>;
+  listUsers(): Promise<UserRecord[]>;
+  setUserPasswordHash(userId: string, passwordHash: string): Promise<void>;
+  deleteUser(userId: string): Promise<boolean>;
+}
+
+export interface GrantStore {
+  getGrant(userId: string, clientId: string, resource: string): Promise<StoredGrant | undefined>;
+  saveGrant(grant: { userId: string; clientId: string; resource: string; scope: string }): Promise<void>;
+  /** Delete the user's grants to the client, for every resource */
+  deleteGrant(userId: string, clientId: string): Promise<void>;
+}
+
+export interface SigningKeyStore {
+  /** Keys created after `since`, newest first */
+  listSigningKeys(since: number): Promise<StoredSigningKey[]>;
+  saveSigningKey(key: StoredSigningKey): Promise<void>;
+  /** Delete keys created at or before `before` */
+  deleteSigningKeys(before: number): Promise<void>;
+}
+
+export interface AuditEventStore {
+  saveAuthEvent(entry: AuthLogEntry): Promise<void>;
+  queryAuthEvents(query: AuthLogQuery): Promise<AuthLogEntry[]>;
+  /** Delete events created before the given time; returns the number deleted */
+  deleteAuthEvents(before: number): Promise<number>;
+}
+
+export interface TwoFactorStore {
+  getTotp(userId: string): Promise<StoredTotp | undefined>;
+  /** Create or replace the user's enrollment */
+  saveTotp(totp: StoredTotp): Promise<void>;
+  deleteTotp(userId: string): Promise<boolean>;
+  /**
+   * Atomically record an accepted code's time step
+   * Returns false if this or a later step was already used
+   */
+  useTotpStep(userId: string, step: number): Promise<boolean>;
+  /** Atomically remove a recovery code; returns false if it wasn't there */
+  useRecoveryCode(userId: string, codeHash: string): Promise<boolean>;
+}
+
+export interface UserSessionStore {
+  saveUserSession(session: UserSession): Promise<void>;
+  /** Update lastSeenAt; returns false if the session is unknown (revoked) or expired */
+  touchUserSession(id: string, lastSeenAt: number): Promise<boolean>;
+  /** Active (unexpired) sessions of a user (every user if omitted), most recently seen first */
+  listUserSessions(userId?: string): Promise<UserSession[]>;
+  deleteUserSession(id: string): Promise<boolean>;
+  /** Returns the number of sessions deleted */
+  deleteUserSessions(userId: string): Promise<number>;
+  deleteExpiredUserSessions(): Promise<void>;
+}
+
+export interface LoginLockoutStore {
+  getLoginLockout(key: string): Promise<LoginLockout | undefined>;
+  /**
+   * Atomically count a failed login and return the new failure count
+   * The count starts over if the last failure was before resetBefore
+   */
+  recordLoginFailure(key: string, resetBefore: number): Promise<number>;
+  setLoginLockedUntil(key: string, lockedUntil: number): Promise<void>;
+  clearLoginFailures(key: string): Promise<void>;
+}
+
+export interface RateLimitStore {
+  /**
+   * Atomically count a request and return the new count
+   * The count starts over, with a new window of windowMs, once resetAt has passed
+   */
+  incrementRateLimit(key: string, windowMs: number): Promise<RateLimitHit>;
+  decrementRateLimit(key: string): Promise<void>;
+  resetRateLimit(key: string): Promise<void>;
+  deleteExpiredRateLimits(): Promise<void>;
+}
+
+/**
+ * Storage backend for everything the package persists
+ * Built in: createPostgresStore (default) and createMemoryStore
+ */
+export interface OAuthStore
+  extends AuthCodeStore,
+    DeviceCodeStore,
+    ClientStore,
+    TokenStore,
+    UserStore,
+    GrantStore,
+    SigningKeyStore,
+    AuditEventStore,
+    TwoFactorStore,
+    UserSessionStore,
+    LoginLockoutStore,
+    RateLimitStore {
+  /** Create or upgrade the schema (called by setupOAuth unless autoMigrate is false) */
+  migrate?(): Promise<unknown>;
+  /** Session store for express-session (default: express-session MemoryStore) */
+  createSessionStore?(): SessionStore;
+}
+
+/**
+ * Options for createAuthMiddleware
+ */
+export interface AuthMiddlewareOptions {
+  /**
+   * Scopes the token must have (all of them); wildcards in granted scopes
+   * match, e.g. 'mcp:tools:*' satisfies 'mcp:tools:call'
+   */
+  requiredScopes?: string[];
+
+  /**
+   * Resource URL of the protected MCP server; tokens issued for any other
+   * resource are rejected (default: the first of OAuthConfig.resources)
+   */
+  resource?: string;
+}
+
+/**
+ * Lockout after failed logins (per account and per IP)
+ */
+export interface LoginLockoutConfig {
+  /** Failed logins allowed per account before it's locked (default: 5) */
+  maxAttempts?: number;
+
+  /** Failed logins allowed per IP address before it's locked (default: 20) */
+  maxAttemptsPerIp?: number;
+
+  /** First lockout in milliseconds, doubled for every further failure (default: 1 minute) */
+  lockoutDuration?: number;
+
+  /** Longest lockout in milliseconds (default: 1 hour) */
+  maxLockoutDuration?: number;
+
+  /** Failures are forgotten after this long without a new one, in milliseconds (default: 24 hours) */
+  failureWindow?: number;
+}
+
+/**
+ * What requests are counted by: the client IP address, or the IP address
+ * together with the client_id (body, Basic auth or query) or username (body)
+ */
+export type RateLimitKey = 'ip' | 'ip+client_id' | 'ip+username';
+
+/**
+ * Rate limit for one endpoint
+ */
+export interface RateLimitRule {
+  /** Window length in milliseconds */
+  windowMs?: number;
+
+  /** Requests allowed per key and window */
+  max?: number;
+
+  /** What requests are counted by (default: 'ip') */
+  key?: RateLimitKey;
+}
+
+/**
+ * Rate limits per endpoint (false disables one)
+ */
+export interface RateLimitConfig {
+  /**
+   * Where request counts are kept: 'store' (the storage backend, so limits
+   * survive restarts and add up across instances) or 'memory' (per process)
+   * (default: 'store')
+   */
+  store?: 'store' | 'memory';
+
+  /** POST /login (default: 5 per 15 minutes) */
+  login?: RateLimitRule | false;
+
+  /** POST /oauth/token (default: 10 per 15 minutes) */
+  token?: RateLimitRule | false;
+
+  /** /oauth/authorize (default: 20 per 15 minutes) */
+  authorize?: RateLimitRule | false;
+
+  /** POST /oauth/register (default: 10 per hour) */
+  register?: RateLimitRule | false;
+
+  /** Two-factor code entry at login and enrollment (default: 10 per 15 minutes) */
+  twoFactor?: RateLimitRule | false;
+
+  /** User code entry at /device (default: 20 per 15 minutes) */
+  device?: RateLimitRule | false;
+
+  /**
+   * Device code polling at POST /oauth/token, which the token limit doesn't
+   * count (default: 30 per minute per IP and client_id)
+   */
+  devicePoll?: RateLimitRule | false;
+
+  /** POST /oauth/introspect (default: 300 per minute, resource servers check every request) */
+  introspect?: RateLimitRule | false;
+
+  /** POST /oauth/revoke (default: 30 per 15 minutes) */
+  revoke?: RateLimitRule | false;
+
+  /** Client configuration endpoint /oauth/register/:client_id (default: 30 per 15 minutes) */
+  clientConfiguration?: RateLimitRule | false;
+
+  /** POST /logout (default: 20 per 15 minutes) */
+  logout?: RateLimitRule | false;
+}
+
+export type RateLimitName = Exclude<keyof RateLimitConfig, 'store'>;
+
+/**
+ * TOTP two-factor authentication (RFC 6238)
+ */
+export interface TwoFactorConfig {
+  /** Name shown in authenticator apps (default: serverUrl host) */
+  issuer?: string;
+
+  /** Number of recovery codes issued at enrollment (default: 10) */
+  recoveryCodeCount?: number;
+}
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+/**
+ * Where the package logs (see OAuthConfig.logger)
+ * Same call style as winston and console; wrap pino loggers with fromPino.
+ * Messages and fields arrive already redacted.
+ */
+export interface Logger {
+  debug(message: string, fields?: Record<string, unknown>): void;
+  info(message: string, fields?: Record<string, unknown>): void;
+  warn(message: string, fields?: Record<string, unknown>): void;
+  error(message: string, fields?: Record<string, unknown>): void;
+}
+
+/**
+ * Destination for audit events (see OAuthConfig.auditSinks)
+ * Built in: createDatabaseAuditSink, createNdjsonAuditSink and createWebhookAuditSink
+ */
+export interface AuditSink {
+  /** Shown in error logs */
+  name: string;
+  /**
+   * Record one event. Should return quickly (buffer slow work); errors are
+   * logged and never reach the other sinks or the request.
+   * store is the storage backend (for sinks that write to it).
+   */
+  write(entry: AuthLogEntry, store: OAuthStore): void | Promise<void>;
+  /** Deliver anything still buffered (e.g. before shutdown) */
+  flush?(): Promise<void>;
+}
+
+/**
+ * Options for createWebhookAuditSink
+ */
+export interface WebhookAuditSinkOptions {
+  /** Receives POST requests with a JSON body: { "events": [...] } */
+  url: string;
+
+  /** Extra request headers (e.g. Authorization) */
+  headers?: Record<string, string>;
+
+  /** Events per request; a full batch is sent right away (default: 50) */
+  batchSize?: number;
+
+  /** Longest an event waits for its batch, in milliseconds (default: 5 seconds) */
+  flushInterval?: number;
+
+  /** Retries for a failed request (network error, timeout, 408, 429 or 5xx) (default: 3) */
+  maxRetries?: number;
+
+  /** Delay before the first retry in milliseconds, doubled for every further one (default: 1 second) */
+  retryDelay?: number;
+
+  /** Request timeout in milliseconds (default: 10 seconds) */
+  timeout?: number;
+
+  /** Events kept while the webhook is unreachable; the oldest are dropped beyond this (default: 10000) */
+  maxQueueSize?: number;
+}
+
+/**
+ * Audit log retention
+ */
+export interface AuditLogConfig {
+  /** Delete events older than this many milliseconds (default: keep forever) */
+  retention?: number;
+
+  /** How often old events are deleted, in milliseconds (default: 1 hour) */
+  pruneInterval?: number;
+
+  /**
+   * Serve the audit log API at /admin/audit-logs to the admin users
+   * (default: only when the admin dashboard is enabled)
+   */
+  api?: boolean;
+}
+
+/**
+ * Admin dashboard (clients, sessions, tokens and audit log)
+ */
+export interface AdminConfig {
+  /** Usernames allowed to use the dashboard (default: ['owner']) */
+  users?: string[];
+}
+
+/**
+ * Registration request passed to a RegistrationPolicy
+ */
+export interface RegistrationPolicyRequest {
+  /** 'register' for POST /oauth/register, 'update' for an RFC 7592 PUT */
+  operation: 'register' | 'update';
+  /** Metadata as sent by the client (before defaults are applied) */
+  metadata: ClientRegistrationRequest;
+  /** Client being updated (operation 'update' only) */
+  clientId?: string;
+  ip?: string;
+  userAgent?: string;
+}
+
+/**
+ * What to do with a registration request
+ * - allow: register the metadata as sent
+ * - deny: reject with the given error (default: access_denied)
+ * - modify: register this metadata instead (it's still validated)
+ */
+export type RegistrationPolicyDecision =
+  | { action: 'allow' }
+  | { action: 'deny'; error?: string; errorDescription?: string }
+  | { action: 'modify'; metadata: ClientRegistrationRequest };
+
+export type RegistrationPolicy = (
+  request: RegistrationPolicyRequest
+) => RegistrationPolicyDecision | Promise<RegistrationPolicyDecision>;
+
+/**
+ * Who may register clients at /oauth/register
+ */
+export interface RegistrationConfig {
+  /**
+   * - 'open': anyone (default)
+   * - 'initial_access_token': requires a Bearer token from initialAccessTokens (RFC 7591 Section 3)
+   * - 'allowlist': every redirect_uri must match allowedRedirectUris
+   */
+  mode?: 'open' | 'initial_access_token' | 'allowlist';
+
+  /** Tokens accepted in 'initial_access_token' mode */
+  initialAccessTokens?: string[];
+
+  /**
+   * redirect_uri patterns for 'allowlist' mode: exact strings, strings with
+   * '*' wildcards (e.g. 'http://localhost:*\/callback') or regular expressions
+   */
+  allowedRedirectUris?: Array<string | RegExp>;
+
+  /** Maximum number of dynamically registered clients (default: unlimited) */
+  maxClients?: number;
+
+  /**
+   * Let registered clients use the client_credentials grant
+   * (default: true in 'initial_access_token' mode, false otherwise)
+   */
+  clientCredentials?: boolean;
+
+  /** Custom policy, run after the built-in checks (e.g. to pin known clients) */
+  policy?: RegistrationPolicy;
+}
+
 /**
  * Configuration for mcp-oauth-password
  */
@@ -96,8 +823,14 @@ export interface OAuthConfig {
   /** Server URL (e.g., 'https://your-server.com') */
   serverUrl: string;
 
-  /** PostgreSQL connection string or Pool instance */
-  database: string | Pool;
+  /** PostgreSQL connection string, Pool instance, or storage backend (e.g. createMemoryStore()) */
+  database: string | Pool | OAuthStore;
+
+  /** Prefix for every table name, e.g. 'mcp_' → mcp_oauth_clients (PostgreSQL only, default: none) */
+  tablePrefix?: string;
+
+  /** Run pending schema migrations in setupOAuth (default: true; set false to run runMigrations() as a deploy step) */
+  autoMigrate?: boolean;
 
   /** Static OAuth client ID (pre-registered) */
   clientId: string;
@@ -105,14 +838,67 @@ export interface OAuthConfig {
   /** Static OAuth client secret (pre-registered) */
   clientSecret: string;
 
-  /** Bcrypt hash of the login password */
-  passwordHash: string;
+  /** How the static client authenticates (default: 'client_secret_post') */
+  clientAuthMethod?: 'client_secret_post' | 'client_secret_basic';
+
+  /**
+   * Lifetime of dynamically registered client secrets in milliseconds
+   * (default: never expire). Reported to clients as client_secret_expires_at.
+   */
+  clientSecretMaxAge?: number;
+
+  /**
+   * How long the old secret keeps working after a rotation, in milliseconds
+   * (default: 24 hours)
+   */
+  clientSecretRotationGracePeriod?: number;
+
+  /**
+   * Bcrypt hash of the login password (optional)
+   * Single-user setup: kept in sync with an 'owner' account; leave the
+   * username blank on the login form to sign in as owner
+   */
+  passwordHash?: string;
 
   /** Session secret for cookie signing */
   sessionSecret: string;
 
-  /** API key returned as access token */
-  apiKey: string;
+  /** @deprecated No longer used: every token exchange issues a distinct per-client token */
+  apiKey?: string;
+
+  /** Access token lifetime in milliseconds (default: 1 hour) */
+  accessTokenMaxAge?: number;
+
+  /** Refresh token lifetime in milliseconds (default: 30 days) */
+  refreshTokenMaxAge?: number;
+
+  /**
+   * Access token format (default: 'opaque')
+   * - 'opaque': random tokens checked against the database
+   * - 'jwt': signed JWTs verified offline against /.well-known/jwks
+   */
+  accessTokenFormat?: 'opaque' | 'jwt';
+
+  /** JWT signing key rotation interval in milliseconds (default: 30 days) */
+  signingKeyRotationInterval?: number;
+
+  /** How long a retired signing key stays published in milliseconds (default: 1 day) */
+  signingKeyOverlap?: number;
+
+  /**
+   * Secret the stored signing keys are encrypted with (default: sessionSecret)
+   * Changing it makes existing keys unreadable; set it to rotate sessionSecret freely
+   */
+  signingKeySecret?: string;
+
+  /** JWKS URL for verifying JWT access tokens without database access (default: keys from database) */
+  jwksUri?: string;
+
+  /**
+   * Client IDs of resource servers that may introspect any token
+   * (the static client always can; other clients only their own tokens)
+   */
+  introspectionClients?: string[];
 
   /** Session cookie name (default: 'mcp_session') */
   sessionName?: string;
@@ -123,9 +909,50 @@ export interface OAuthConfig {
   /** Allowed redirect URI prefixes (default: ['https://claude.ai/', 'http://localhost:']) */
   allowedRedirectPrefixes?: string[];
 
+  /** Access control for dynamic client registration (default: open) */
+  registration?: RegistrationConfig;
+
+  /** Lockout after failed logins (default: enabled with default settings, false to disable) */
+  loginLockout?: LoginLockoutConfig | false;
+
+  /** Rate limits per endpoint (default: see RateLimitConfig) */
+  rateLimit?: RateLimitConfig;
+
+  /**
+   * Enable TOTP enrollment at /account/two-factor (optional)
+   * Users who enrolled are always asked for a code at login.
+   */
+  twoFactor?: TwoFactorConfig;
+
+  /**
+   * Where the package logs (default: nowhere). createJsonLogger() writes
+   * JSON lines to stdout; winston loggers and console work as they are,
+   * pino loggers through fromPino(). Codes, secrets and tokens are redacted.
+   */
+  logger?: Logger;
+
+  /**
+   * Where audit events are sent (default: [createDatabaseAuditSink()]).
+   * Leave out the database sink and queryAuthLogs, retention and the admin
+   * audit log have nothing to work with.
+   */
+  auditSinks?: AuditSink[];
+
+  /** Audit log retention (default: events are kept forever) */
+  auditLog?: AuditLogConfig;
+
+  /** Enable the admin dashboard at /admin (optional) */
+  admin?: AdminConfig;
+
   /** OAuth scopes supported (default: ['mcp:tools:*', 'mcp:resources:*', 'mcp:prompts:*']) */
   scopes?: string[];
 
+  /**
+   * Resource URLs (RFC 8707) of the MCP servers this server issues tokens for;
+   * requests without a resource parameter get the first (default: [serverUrl])
+   */
+  resources?: string[];
+
   /** Custom login view path (optional, uses default if not provided) */
   loginViewPath?: string;
 }
@@ -135,7 +962,48 @@ export interface OAuthConfig {
  */
 declare module 'express-session' {
   interface SessionData {
-    authenticated?: boolean;
+    /** ID of the logged-in user */
+    userId?: string;
+    /** User who passed the password step and still has to enter a TOTP code */
+    pendingTwoFactor?: {
+      userId: string;
+      originalUrl: string;
+      attempts: number;
+      createdAt: number; // Unix timestamp
+    };
+    /** Two-factor setup page state; the random ID doubles as CSRF token */
+    pendingTwoFactorSetup?: {
+      id: string;
+      /** Secret of an enrollment waiting for its first code (encrypted) */
+      encryptedSecret?: string;
+      createdAt: number; // Unix timestamp
+    };
+    /** CSRF token for the admin dashboard forms */
+    adminCsrfToken?: string;
+    /** Device authorization the user is asked to confirm; the random ID doubles as CSRF token */
+    pendingDeviceConfirmation?: {
+      id: string;
+      userCode: string;
+      createdAt: number; // Unix timestamp
+    };
+    /** Authorization request waiting for the user's consent */
+    pendingConsent?: {
+      id: string;
+      request: AuthorizationRequest;
+      createdAt: number; // Unix timestamp
+    };
+  }
+}
+
+/**
+ * Extend Express request with the validated access token
+ * (set by createAuthMiddleware)
+ */
+declare global {
+  namespace Express {
+    interface Request {
+      auth?: AuthInfo;
+    }
   }
 }
 
@@ -144,6 +1012,6 @@ declare module 'express-session' {
  */
 export interface AuthenticatedRequest extends Request {
   session: {
-    authenticated?: boolean;
+    userId?: string;
   } & Request['session'];
 }
@@ -1,56 +1,21 @@
 /**
  * Audit Logging Utilities
  *
- * Logs authentication events for security monitoring
+ * Logs authentication events for security monitoring, reads them back
+ * (queryAuthLogs) and deletes them after the retention period
  */
 
-import type { Pool } from 'pg';
 import type { Request } from 'express';
+import { getLogger } from './logger.js';
+import type { AuthEvent, AuthLogEntry, AuthLogFilter, AuthLogPage, OAuthConfig, OAuthStore } from '../types/index.js';
 
-export type AuthEvent =
-  | 'login_attempt'
-  | 'login_success'
-  | 'login_failure'
-  | 'token_exchange'
-  | 'token_failure'
-  | 'authorize_request'
-  | 'client_registration';
-
-/**
- * Initialize auth_logs table
- */
-export async function initAuditLogging(pool: Pool): Promise<void> {
-  try {
-    await pool.query(`
-      CREATE TABLE IF NOT EXISTS auth_logs (
-        id SERIAL PRIMARY KEY,
-        event VARCHAR(50) NOT NULL,
-        ip VARCHAR(45),
-        user_agent TEXT,
-        client_id VARCHAR(255),
-        success BOOLEAN,
-        error_message TEXT,
-        metadata JSONB,
-        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
-      );
-
-      CREATE INDEX IF NOT EXISTS idx_auth_logs_event ON auth_logs(event);
-      CREATE INDEX IF NOT EXISTS idx_auth_logs_created_at ON auth_logs(created_at DESC);
-      CREATE INDEX IF NOT EXISTS idx_auth_logs_ip ON auth_logs(ip);
-      CREATE INDEX IF NOT EXISTS idx_auth_logs_client_id ON auth_logs(client_id);
-    `);
-
-    console.log('[Audit Log] auth_logs table initialized');
-  } catch (error) {
-    console.error('[Audit Log] Failed to initialize auth_logs table:', error);
-  }
-}
+const log = getLogger('audit');
 
 /**
  * Log an authentication event
  */
 export async function logAuthEvent(
-  pool: Pool,
+  store: OAuthStore,
   event: AuthEvent,
   req: Request,
   options: {
@@ -61,27 +26,117 @@ export async function logAuthEvent(
   }
 ): Promise<void> {
   try {
-    const ip = req.ip || req.socket.remoteAddress || null;
-    const userAgent = req.headers['user-agent'] || null;
-
-    await pool.query(
-      `INSERT INTO auth_logs (event, ip, user_agent, client_id, success, error_message, metadata)
-       VALUES ($1, $2, $3, $4, $5, $6, $7)`,
-      [
-        event,
-        ip,
-        userAgent,
-        options.clientId || null,
-        options.success,
-        options.errorMessage || null,
-        options.metadata ? JSON.stringify(options.metadata) : null,
-      ]
-    );
-
-    const status = options.success ? 'SUCCESS' : 'FAILURE';
-    console.log(`[Audit Log] ${event.toUpperCase()} ${status} from ${ip}`);
+    const ip = req.ip || req.socket.remoteAddress || undefined;
+
+    await store.saveAuthEvent({
+      event,
+      ip,
+      userAgent: req.headers['user-agent'],
+      clientId: options.clientId,
+      success: options.success,
+      errorMessage: options.errorMessage,
+      metadata: options.metadata,
+      createdAt: Date.now(),
+    });
+
+    log.debug('Auth event', { event, success: options.success, clientId: options.clientId, ip });
   } catch (error) {
     // Don't throw - logging failures shouldn't break the application
-    console.error('[Audit Log] Failed to log event:', error);
+    log.error('Failed to log event', { err: error });
   }
 }
+
+const DEFAULT_PAGE_SIZE = 100;
+const MAX_PAGE_SIZE = 1000;
+const DEFAULT_PRUNE_INTERVAL = 60 * 60 * 1000; // 1 hour
+
+function toTimestamp(value: number | Date | undefined): number | undefined {
+  return value instanceof Date ? value.getTime() : value;
+}
+
+/**
+ * Audit event in the external schema shared by the API, exports and sinks
+ * (snake_case like the OAuth responses, ISO 8601 time)
+ */
+export function formatAuthEvent(entry: AuthLogEntry) {
+  return {
+    id: entry.id,
+    event: entry.event,
+    success: entry.success,
+    client_id: entry.clientId,
+    ip: entry.ip,
+    user_agent: entry.userAgent,
+    error_message: entry.errorMessage,
+    metadata: entry.metadata,
+    created_at: new Date(entry.createdAt).toISOString(),
+  };
+}
+
+/**
+ * Check that a value is a cursor returned by queryAuthLogs
+ */
+export function isAuthLogCursor(value: unknown): value is string {
+  return typeof value === 'string' && /^\d+$/.test(value);
+}
+
+/**
+ * Read audit events matching a filter, newest first
+ * Pass the returned nextCursor back in to get the next (older) page.
+ */
+export async function queryAuthLogs(store: OAuthStore, filter: AuthLogFilter = {}): Promise<AuthLogPage> {
+  if (filter.cursor !== undefined && !isAuthLogCursor(filter.cursor)) {
+    throw new Error('Invalid cursor');
+  }
+
+  const limit = Math.min(Math.max(Math.floor(filter.limit ?? DEFAULT_PAGE_SIZE), 1), MAX_PAGE_SIZE);
+
+  // One extra row tells whether there's another page
+  const events = await store.queryAuthEvents({
+    event: filter.event,
+    clientId: filter.clientId,
+    ip: filter.ip,
+    success: filter.success,
+    since: toTimestamp(filter.since),
+    until: toTimestamp(filter.until),
+    before: filter.cursor !== undefined ? Number(filter.cursor) : undefined,
+    limit: limit + 1,
+  });
+
+  if (events.length <= limit) {
+    return { events };
+  }
+
+  const page = events.slice(0, limit);
+  return { events: page, nextCursor: String(page[page.length - 1].id) };
+}
+
+/**
+ * Delete audit events created before the given time
+ * Returns the number of events deleted
+ */
+export async function pruneAuthLogs(store: OAuthStore, before: number | Date): Promise<number> {
+  const deleted = await store.deleteAuthEvents(before instanceof Date ? before.getTime() : before);
+  log.info('Audit log pruned', { deleted });
+  return deleted;
+}
+
+/**
+ * Delete events older than config.auditLog.retention now and then every
+ * pruneInterval (no-op without a retention period)
+ */
+export function scheduleAuthLogPruning(store: OAuthStore, config: OAuthConfig): void {
+  const retention = config.auditLog?.retention;
+  if (!retention) {
+    return;
+  }
+
+  const prune = () =>
+    pruneAuthLogs(store, Date.now() - retention).catch((error) => {
+      log.error('Failed to prune audit log', { err: error });
+    });
+
+  prune();
+  const timer = setInterval(prune, config.auditLog?.pruneInterval || DEFAULT_PRUNE_INTERVAL);
+  // Don't keep the process alive just for pruning
+  timer.unref();
+}
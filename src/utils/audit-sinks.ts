@@ -0,0 +1,207 @@
+/**
+ * Audit Sinks
+ *
+ * Destinations for audit events (OAuthConfig.auditSinks):
+ * - database: the auth_logs table (default)
+ * - NDJSON: one JSON object per line, appended to a file or stdout
+ * - webhook: batched POST requests, retried with exponential backoff
+ *
+ * Every event goes to every sink; a failing sink is logged and skipped.
+ */
+
+import { createWriteStream } from 'fs';
+import type { Writable } from 'stream';
+import { formatAuthEvent } from './audit-log.js';
+import { getLogger } from './logger.js';
+import type { AuditSink, AuthLogEntry, OAuthStore, WebhookAuditSinkOptions } from '../types/index.js';
+
+const DEFAULT_BATCH_SIZE = 50;
+const DEFAULT_FLUSH_INTERVAL = 5000; // 5 seconds
+const DEFAULT_MAX_RETRIES = 3;
+const DEFAULT_RETRY_DELAY = 1000; // 1 second
+const DEFAULT_TIMEOUT = 10000; // 10 seconds
+const DEFAULT_MAX_QUEUE_SIZE = 10000;
+
+const log = getLogger('audit');
+
+// Stores wrapped by withAuditSinks, by wrapper
+const wrappedStores = new WeakMap<OAuthStore, OAuthStore>();
+
+/**
+ * Sink that writes to the storage backend (auth_logs table)
+ */
+export function createDatabaseAuditSink(): AuditSink {
+  return {
+    name: 'database',
+    async write(entry, store) {
+      await store.saveAuthEvent(entry);
+    },
+  };
+}
+
+/**
+ * Sink that appends events as newline-delimited JSON to a file
+ * (stdout if no path is given), in the same schema as the audit log API
+ */
+export function createNdjsonAuditSink(options: { path?: string } = {}): AuditSink {
+  let stream: Writable | undefined;
+
+  function open(): Writable {
+    if (!options.path) {
+      return process.stdout;
+    }
+
+    const fileStream = createWriteStream(options.path, { flags: 'a' });
+    fileStream.on('error', (error) => {
+      log.error('Failed to write audit log file', { path: options.path, err: error });
+      // Reopen on the next event
+      stream = undefined;
+    });
+    return fileStream;
+  }
+
+  return {
+    name: `ndjson:${options.path || 'stdout'}`,
+    write(entry) {
+      stream = stream || open();
+      stream.write(`${JSON.stringify(formatAuthEvent(entry))}\n`);
+    },
+  };
+}
+
+/**
+ * Whether a failed webhook request is worth retrying
+ */
+function isRetryableStatus(status: number): boolean {
+  return status >= 500 || status === 408 || status === 429;
+}
+
+/**
+ * Sink that POSTs batches of events to a webhook
+ *
+ * Events are queued and sent when a batch is full or flushInterval has
+ * passed, one request at a time. Failed requests are retried with
+ * exponential backoff; a batch that still fails is dropped (and logged).
+ */
+export function createWebhookAuditSink(options: WebhookAuditSinkOptions): AuditSink {
+  const batchSize = options.batchSize || DEFAULT_BATCH_SIZE;
+  const flushInterval = options.flushInterval || DEFAULT_FLUSH_INTERVAL;
+  const maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+  const retryDelay = options.retryDelay ?? DEFAULT_RETRY_DELAY;
+  const timeout = options.timeout || DEFAULT_TIMEOUT;
+  const maxQueueSize = options.maxQueueSize || DEFAULT_MAX_QUEUE_SIZE;
+
+  const queue: ReturnType<typeof formatAuthEvent>[] = [];
+  let timer: NodeJS.Timeout | undefined;
+  let sending: Promise<void> = Promise.resolve();
+
+  async function post(events: ReturnType<typeof formatAuthEvent>[]): Promise<void> {
+    for (let attempt = 0; ; attempt++) {
+      let retryable = true;
+      let failure: unknown;
+
+      try {
+        const response = await fetch(options.url, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', ...options.headers },
+          body: JSON.stringify({ events }),
+          signal: AbortSignal.timeout(timeout),
+        });
+        if (response.ok) {
+          return;
+        }
+        retryable = isRetryableStatus(response.status);
+        failure = new Error(`Webhook responded with HTTP ${response.status}`);
+      } catch (error) {
+        failure = error;
+      }
+
+      if (!retryable || attempt >= maxRetries) {
+        throw failure;
+      }
+      await new Promise((resolve) => setTimeout(resolve, retryDelay * 2 ** attempt));
+    }
+  }
+
+  function flush(): Promise<void> {
+    if (timer) {
+      clearTimeout(timer);
+      timer = undefined;
+    }
+
+    // Queued behind the previous flush, so batches arrive in order
+    sending = sending.then(async () => {
+      while (queue.length > 0) {
+        const batch = queue.splice(0, batchSize);
+        try {
+          await post(batch);
+        } catch (error) {
+          log.error('Audit webhook dropped events', { count: batch.length, err: error });
+        }
+      }
+    });
+
+    return sending;
+  }
+
+  return {
+    name: `webhook:${new URL(options.url).host}`,
+    write(entry) {
+      queue.push(formatAuthEvent(entry));
+
+      if (queue.length > maxQueueSize) {
+        const dropped = queue.splice(0, queue.length - maxQueueSize);
+        log.error('Audit webhook queue full, dropped events', { count: dropped.length });
+      }
+
+      if (queue.length >= batchSize) {
+        flush();
+      } else if (!timer) {
+        timer = setTimeout(flush, flushInterval);
+        // Don't keep the process alive just for this; call flush() before exiting
+        timer.unref();
+      }
+    },
+    flush,
+  };
+}
+
+/**
+ * Wrap a storage backend so saveAuthEvent (and so logAuthEvent) sends every
+ * event to the given sinks instead of writing it directly
+ */
+export function withAuditSinks(store: OAuthStore, sinks: AuditSink[]): OAuthStore {
+  async function saveAuthEvent(entry: AuthLogEntry): Promise<void> {
+    await Promise.all(
+      sinks.map(async (sink) => {
+        try {
+          await sink.write(entry, store);
+        } catch (error) {
+          // One failing sink doesn't affect the others
+          log.error('Audit sink failed', { sink: sink.name, err: error });
+        }
+      })
+    );
+  }
+
+  // Proxy rather than a copy, so class-based stores keep their prototype
+  const wrapped = new Proxy(store, {
+    get(target, property) {
+      if (property === 'saveAuthEvent') {
+        return saveAuthEvent;
+      }
+      const value = Reflect.get(target, property, target);
+      return typeof value === 'function' ? value.bind(target) : value;
+    },
+  });
+  wrappedStores.set(wrapped, unwrapStore(store));
+  return wrapped;
+}
+
+/**
+ * The storage backend behind a store wrapped by withAuditSinks
+ * (the store itself if it isn't wrapped)
+ */
+export function unwrapStore(store: OAuthStore): OAuthStore {
+  return wrappedStores.get(store) || store;
+}
@@ -0,0 +1,69 @@
+/**
+ * Database Pool Utilities
+ *
+ * Shares one pg.Pool (and storage backend) per connection string, so
+ * setupOAuth and createAuthMiddleware talk to the same pool when given
+ * the same config.
+ */
+
+import pg from 'pg';
+import type { Pool } from 'pg';
+import { createPostgresStore } from '../storage/postgres.js';
+import type { OAuthStore } from '../types/index.js';
+
+const { Pool: PgPool } = pg;
+
+const pools = new Map<string, Pool>();
+
+/**
+ * Resolve a connection string or Pool instance to a Pool
+ */
+function resolvePool(database: string | Pool): Pool {
+  if (typeof database !== 'string') {
+    return database;
+  }
+
+  let pool = pools.get(database);
+  if (!pool) {
+    pool = new PgPool({ connectionString: database });
+    pools.set(database, pool);
+  }
+
+  return pool;
+}
+
+const stores = new WeakMap<Pool, OAuthStore>();
+
+function isPool(database: Pool | OAuthStore): database is Pool {
+  return typeof (database as Pool).query === 'function';
+}
+
+/**
+ * Resolve OAuthConfig.database to its pg.Pool
+ * Returns undefined for other storage backends
+ */
+export function getPool(database: string | Pool | OAuthStore): Pool | undefined {
+  if (typeof database !== 'string' && !isPool(database)) {
+    return undefined;
+  }
+  return resolvePool(database);
+}
+
+/**
+ * Resolve OAuthConfig.database to a storage backend
+ * (one PostgreSQL store per pool, so every caller shares its caches)
+ */
+export function resolveStore(database: string | Pool | OAuthStore, tablePrefix?: string): OAuthStore {
+  if (typeof database !== 'string' && !isPool(database)) {
+    return database;
+  }
+
+  const pool = resolvePool(database);
+  let store = stores.get(pool);
+  if (!store) {
+    store = createPostgresStore(pool, { tablePrefix });
+    stores.set(pool, store);
+  }
+
+  return store;
+}
@@ -0,0 +1,141 @@
+/**
+ * Logging
+ *
+ * Every module logs through a named logger (getLogger('tokens')), which
+ * forwards to OAuthConfig.logger - silent unless one is configured.
+ * Messages and fields are redacted here, before any logger sees them:
+ * authorization codes, secrets, tokens, verifiers and passwords never
+ * leave the package.
+ */
+
+import type { Logger, LogLevel } from '../types/index.js';
+
+const LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+const REDACTED = '[REDACTED]';
+const MAX_DEPTH = 5;
+
+// Field names whose string values are always redacted
+const SENSITIVE_KEY = /secret|token|password|verifier|authorization|cookie|credential|^code$/i;
+
+// Credentials inside free text: URL parameters and Authorization header values
+const SENSITIVE_PARAM =
+  /([?&#](?:code|token|access_token|refresh_token|id_token|client_secret|code_verifier|password)=)[^&#\s"']*/gi;
+const AUTHORIZATION_VALUE = /\b(Bearer|Basic)\s+[\w\-.~+/]+=*/gi;
+
+const silentLogger: Logger = {
+  debug() {},
+  info() {},
+  warn() {},
+  error() {},
+};
+
+let target: Logger = silentLogger;
+
+/**
+ * Send the package's logs to a logger (called by setupOAuth and
+ * createAuthMiddleware with OAuthConfig.logger)
+ */
+export function setLogger(logger: Logger): void {
+  target = logger;
+}
+
+/**
+ * Redact credentials from free text
+ */
+export function redactString(text: string): string {
+  return text.replace(SENSITIVE_PARAM, `$1${REDACTED}`).replace(AUTHORIZATION_VALUE, `$1 ${REDACTED}`);
+}
+
+/**
+ * Redact a log field (recursively); errors become plain objects
+ */
+function redactValue(value: unknown, key: string, depth: number): unknown {
+  if (typeof value === 'string') {
+    return SENSITIVE_KEY.test(key) ? REDACTED : redactString(value);
+  }
+  if (value instanceof Error) {
+    return { type: value.name, message: redactString(value.message), stack: value.stack && redactString(value.stack) };
+  }
+  if (value === null || typeof value !== 'object' || value instanceof Date) {
+    return value;
+  }
+  if (depth >= MAX_DEPTH) {
+    return '[Object]';
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redactValue(item, key, depth + 1));
+  }
+
+  const redacted: Record<string, unknown> = {};
+  for (const [name, item] of Object.entries(value)) {
+    redacted[name] = redactValue(item, name, depth + 1);
+  }
+  return redacted;
+}
+
+/**
+ * Redact every field of a log entry
+ */
+export function redactFields(fields: Record<string, unknown>): Record<string, unknown> {
+  return redactValue(fields, '', 0) as Record<string, unknown>;
+}
+
+/**
+ * Get the logger for a component
+ * Fields are merged with { component }; errors go in an `err` field.
+ */
+export function getLogger(component: string): Logger {
+  const write =
+    (level: LogLevel) =>
+    (message: string, fields?: Record<string, unknown>): void => {
+      if (target === silentLogger) {
+        return;
+      }
+      try {
+        target[level](redactString(message), redactFields({ component, ...fields }));
+      } catch {
+        // A broken logger shouldn't break the request
+      }
+    };
+
+  return { debug: write('debug'), info: write('info'), warn: write('warn'), error: write('error') };
+}
+
+/**
+ * Logger that writes one JSON object per line:
+ * {"time":"...","level":"info","msg":"...","component":"tokens",...}
+ */
+export function createJsonLogger(
+  options: { level?: LogLevel; stream?: NodeJS.WritableStream } = {}
+): Logger {
+  const minLevel = LEVELS.indexOf(options.level || 'info');
+  const stream = options.stream || process.stdout;
+
+  const write =
+    (level: LogLevel) =>
+    (message: string, fields?: Record<string, unknown>): void => {
+      if (LEVELS.indexOf(level) < minLevel) {
+        return;
+      }
+      stream.write(`${JSON.stringify({ time: new Date().toISOString(), level, msg: message, ...fields })}\n`);
+    };
+
+  return { debug: write('debug'), info: write('info'), warn: write('warn'), error: write('error') };
+}
+
+/**
+ * Adapt a pino logger, which takes (fields, message) rather than (message, fields)
+ */
+export function fromPino(pino: {
+  debug(fields: object, message: string): void;
+  info(fields: object, message: string): void;
+  warn(fields: object, message: string): void;
+  error(fields: object, message: string): void;
+}): Logger {
+  return {
+    debug: (message, fields) => pino.debug(fields || {}, message),
+    info: (message, fields) => pino.info(fields || {}, message),
+    warn: (message, fields) => pino.warn(fields || {}, message),
+    error: (message, fields) => pino.error(fields || {}, message),
+  };
+}
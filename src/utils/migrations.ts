@@ -0,0 +1,334 @@
+/**
+ * Database Schema Migrations
+ *
+ * Versioned, forward-only migrations for every table the package uses
+ * (except the session table, which connect-pg-simple manages).
+ *
+ * - Applied versions are recorded in the schema_migrations table
+ * - All pending migrations run in one transaction, under an advisory lock,
+ *   so instances starting at the same time don't race
+ * - Table names can carry a prefix (OAuthConfig.tablePrefix)
+ *
+ * Migrations must never be edited once released; add a new version instead.
+ */
+
+import type { Pool } from 'pg';
+import { getLogger } from './logger.js';
+
+const log = getLogger('migrations');
+
+/**
+ * Create a function that prefixes table names
+ */
+export function tablePrefixer(prefix = ''): (name: string) => string {
+  // Interpolated into SQL, so only allow plain identifiers
+  if (prefix && !/^[A-Za-z_][A-Za-z0-9_]*$/.test(prefix)) {
+    throw new Error(`Invalid tablePrefix: ${prefix}`);
+  }
+  return (name) => `${prefix}${name}`;
+}
+
+export interface Migration {
+  version: number;
+  name: string;
+  /** SQL to apply, given a function that prefixes table names */
+  up: (t: (name: string) => string) => string;
+}
+
+export const migrations: Migration[] = [
+  {
+    version: 1,
+    name: 'initial_schema',
+    // IF NOT EXISTS / ADD COLUMN IF NOT EXISTS adopt databases created
+    // by hand or by versions before migrations existed
+    up: (t) => `
+      CREATE TABLE IF NOT EXISTS ${t('oauth_clients')} (
+        client_id VARCHAR(255) PRIMARY KEY,
+        client_secret VARCHAR(255) NOT NULL,
+        client_name VARCHAR(255),
+        redirect_uris TEXT[] NOT NULL DEFAULT '{}',
+        token_endpoint_auth_method VARCHAR(50) NOT NULL,
+        grant_types TEXT[] NOT NULL DEFAULT '{}',
+        response_types TEXT[] NOT NULL DEFAULT '{}',
+        scope TEXT,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+      ALTER TABLE ${t('oauth_clients')} ADD COLUMN IF NOT EXISTS logo_uri TEXT;
+      ALTER TABLE ${t('oauth_clients')} ADD COLUMN IF NOT EXISTS client_uri TEXT;
+
+      CREATE TABLE IF NOT EXISTS ${t('authorization_codes')} (
+        code VARCHAR(255) PRIMARY KEY,
+        client_id VARCHAR(255) NOT NULL,
+        redirect_uri TEXT NOT NULL,
+        code_challenge VARCHAR(128) NOT NULL,
+        code_challenge_method VARCHAR(10) NOT NULL,
+        scope TEXT,
+        expires_at TIMESTAMP NOT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+      ALTER TABLE ${t('authorization_codes')} ADD COLUMN IF NOT EXISTS user_id VARCHAR(36);
+      CREATE INDEX IF NOT EXISTS ${t('idx_authorization_codes_expires_at')}
+        ON ${t('authorization_codes')}(expires_at);
+
+      CREATE TABLE IF NOT EXISTS ${t('auth_logs')} (
+        id SERIAL PRIMARY KEY,
+        event VARCHAR(50) NOT NULL,
+        ip VARCHAR(45),
+        user_agent TEXT,
+        client_id VARCHAR(255),
+        success BOOLEAN,
+        error_message TEXT,
+        metadata JSONB,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+      CREATE INDEX IF NOT EXISTS ${t('idx_auth_logs_event')} ON ${t('auth_logs')}(event);
+      CREATE INDEX IF NOT EXISTS ${t('idx_auth_logs_created_at')} ON ${t('auth_logs')}(created_at DESC);
+      CREATE INDEX IF NOT EXISTS ${t('idx_auth_logs_ip')} ON ${t('auth_logs')}(ip);
+      CREATE INDEX IF NOT EXISTS ${t('idx_auth_logs_client_id')} ON ${t('auth_logs')}(client_id);
+
+      CREATE TABLE IF NOT EXISTS ${t('users')} (
+        id VARCHAR(36) PRIMARY KEY,
+        username VARCHAR(255) NOT NULL UNIQUE,
+        email VARCHAR(255) UNIQUE,
+        password_hash VARCHAR(255) NOT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE TABLE IF NOT EXISTS ${t('access_tokens')} (
+        token_hash VARCHAR(64) PRIMARY KEY,
+        client_id VARCHAR(255) NOT NULL,
+        user_id VARCHAR(36),
+        scope TEXT,
+        family_id VARCHAR(64) NOT NULL,
+        expires_at TIMESTAMP NOT NULL,
+        revoked_at TIMESTAMP,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+      CREATE INDEX IF NOT EXISTS ${t('idx_access_tokens_family_id')} ON ${t('access_tokens')}(family_id);
+      CREATE INDEX IF NOT EXISTS ${t('idx_access_tokens_expires_at')} ON ${t('access_tokens')}(expires_at);
+      CREATE INDEX IF NOT EXISTS ${t('idx_access_tokens_client_id')} ON ${t('access_tokens')}(client_id);
+      CREATE INDEX IF NOT EXISTS ${t('idx_access_tokens_user_id')} ON ${t('access_tokens')}(user_id);
+
+      CREATE TABLE IF NOT EXISTS ${t('refresh_tokens')} (
+        token_hash VARCHAR(64) PRIMARY KEY,
+        client_id VARCHAR(255) NOT NULL,
+        user_id VARCHAR(36),
+        scope TEXT,
+        family_id VARCHAR(64) NOT NULL,
+        expires_at TIMESTAMP NOT NULL,
+        used_at TIMESTAMP,
+        revoked_at TIMESTAMP,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+      CREATE INDEX IF NOT EXISTS ${t('idx_refresh_tokens_family_id')} ON ${t('refresh_tokens')}(family_id);
+      CREATE INDEX IF NOT EXISTS ${t('idx_refresh_tokens_expires_at')} ON ${t('refresh_tokens')}(expires_at);
+      CREATE INDEX IF NOT EXISTS ${t('idx_refresh_tokens_client_id')} ON ${t('refresh_tokens')}(client_id);
+      CREATE INDEX IF NOT EXISTS ${t('idx_refresh_tokens_user_id')} ON ${t('refresh_tokens')}(user_id);
+
+      CREATE TABLE IF NOT EXISTS ${t('oauth_grants')} (
+        user_id VARCHAR(36) NOT NULL,
+        client_id VARCHAR(255) NOT NULL,
+        scope TEXT NOT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (user_id, client_id)
+      );
+
+      CREATE TABLE IF NOT EXISTS ${t('oauth_signing_keys')} (
+        kid VARCHAR(64) PRIMARY KEY,
+        private_key TEXT NOT NULL,
+        public_jwk JSONB NOT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+    `,
+  },
+  {
+    version: 2,
+    name: 'client_registration_access_token',
+    up: (t) => `
+      ALTER TABLE ${t('oauth_clients')} ADD COLUMN IF NOT EXISTS registration_access_token_hash VARCHAR(64);
+    `,
+  },
+  {
+    version: 3,
+    name: 'hashed_client_secrets',
+    // Existing plaintext secrets are hashed in place (same format as
+    // hashClientSecret), then the plaintext column is dropped
+    up: (t) => `
+      ALTER TABLE ${t('oauth_clients')} ADD COLUMN client_secret_hash VARCHAR(255);
+      ALTER TABLE ${t('oauth_clients')} ADD COLUMN client_secret_expires_at TIMESTAMP;
+      ALTER TABLE ${t('oauth_clients')} ADD COLUMN previous_client_secret_hash VARCHAR(255);
+      ALTER TABLE ${t('oauth_clients')} ADD COLUMN previous_client_secret_expires_at TIMESTAMP;
+
+      UPDATE ${t('oauth_clients')} AS c
+        SET client_secret_hash =
+          'sha256$' || s.salt || '$' || encode(sha256(convert_to(s.salt || c.client_secret, 'UTF8')), 'hex')
+        FROM (
+          SELECT client_id, md5(random()::text || clock_timestamp()::text || client_id) AS salt
+          FROM ${t('oauth_clients')}
+        ) AS s
+        WHERE s.client_id = c.client_id;
+
+      ALTER TABLE ${t('oauth_clients')} ALTER COLUMN client_secret_hash SET NOT NULL;
+      ALTER TABLE ${t('oauth_clients')} DROP COLUMN client_secret;
+    `,
+  },
+  {
+    version: 4,
+    name: 'login_lockouts',
+    up: (t) => `
+      CREATE TABLE ${t('login_lockouts')} (
+        key VARCHAR(512) PRIMARY KEY,
+        failures INTEGER NOT NULL,
+        last_failure_at TIMESTAMP NOT NULL,
+        locked_until TIMESTAMP
+      );
+    `,
+  },
+  {
+    version: 5,
+    name: 'user_totp',
+    up: (t) => `
+      CREATE TABLE ${t('user_totp')} (
+        user_id VARCHAR(36) PRIMARY KEY,
+        secret TEXT NOT NULL,
+        recovery_codes TEXT[] NOT NULL DEFAULT '{}',
+        last_used_step BIGINT,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+    `,
+  },
+  {
+    version: 6,
+    name: 'user_sessions',
+    up: (t) => `
+      CREATE TABLE ${t('user_sessions')} (
+        id VARCHAR(64) PRIMARY KEY,
+        user_id VARCHAR(36) NOT NULL,
+        ip VARCHAR(45),
+        user_agent TEXT,
+        created_at TIMESTAMP NOT NULL,
+        last_seen_at TIMESTAMP NOT NULL,
+        expires_at TIMESTAMP NOT NULL
+      );
+      CREATE INDEX ${t('idx_user_sessions_user_id')} ON ${t('user_sessions')}(user_id);
+      CREATE INDEX ${t('idx_user_sessions_expires_at')} ON ${t('user_sessions')}(expires_at);
+    `,
+  },
+  {
+    version: 7,
+    name: 'rate_limits',
+    up: (t) => `
+      CREATE TABLE ${t('rate_limits')} (
+        key VARCHAR(512) PRIMARY KEY,
+        hits INTEGER NOT NULL,
+        reset_at TIMESTAMP NOT NULL
+      );
+      CREATE INDEX ${t('idx_rate_limits_reset_at')} ON ${t('rate_limits')}(reset_at);
+    `,
+  },
+  {
+    version: 8,
+    name: 'device_codes',
+    up: (t) => `
+      CREATE TABLE ${t('device_codes')} (
+        device_code_hash VARCHAR(64) PRIMARY KEY,
+        user_code VARCHAR(16) NOT NULL UNIQUE,
+        client_id VARCHAR(255) NOT NULL,
+        scope TEXT,
+        status VARCHAR(16) NOT NULL,
+        user_id VARCHAR(36),
+        poll_interval INTEGER NOT NULL,
+        last_polled_at TIMESTAMP,
+        created_at TIMESTAMP NOT NULL,
+        expires_at TIMESTAMP NOT NULL
+      );
+      CREATE INDEX ${t('idx_device_codes_expires_at')} ON ${t('device_codes')}(expires_at);
+    `,
+  },
+  {
+    version: 9,
+    name: 'resource_indicators',
+    // Existing rows keep a NULL resource and count as issued for the default resource
+    up: (t) => `
+      ALTER TABLE ${t('authorization_codes')} ADD COLUMN resource TEXT;
+      ALTER TABLE ${t('device_codes')} ADD COLUMN resource TEXT;
+      ALTER TABLE ${t('access_tokens')} ADD COLUMN resource TEXT;
+      ALTER TABLE ${t('refresh_tokens')} ADD COLUMN resource TEXT;
+    `,
+  },
+  {
+    version: 10,
+    name: 'grant_resources',
+    // Consent is per resource. Existing grants get an empty resource, which
+    // matches none: users are asked once more, now seeing the resource
+    up: (t) => `
+      ALTER TABLE ${t('oauth_grants')} ADD COLUMN resource TEXT NOT NULL DEFAULT '';
+      ALTER TABLE ${t('oauth_grants')} DROP CONSTRAINT ${t('oauth_grants')}_pkey;
+      ALTER TABLE ${t('oauth_grants')} ADD PRIMARY KEY (user_id, client_id, resource);
+    `,
+  },
+];
+
+/**
+ * Apply every pending migration
+ * Returns the versions applied by this call (empty if already up to date)
+ */
+export async function runMigrations(
+  pool: Pool,
+  options: { tablePrefix?: string } = {}
+): Promise<number[]> {
+  const t = tablePrefixer(options.tablePrefix);
+
+  const client = await pool.connect();
+  const applied: number[] = [];
+
+  try {
+    await client.query('BEGIN');
+
+    // Serialize concurrent runs (e.g. several replicas starting at once)
+    await client.query('SELECT pg_advisory_xact_lock(hashtext($1))', [
+      `mcp-oauth-password:${t('schema_migrations')}`,
+    ]);
+
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS ${t('schema_migrations')} (
+        version INTEGER PRIMARY KEY,
+        name VARCHAR(255) NOT NULL,
+        applied_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    const result = await client.query(`SELECT version FROM ${t('schema_migrations')}`);
+    const appliedVersions = new Set(result.rows.map((row) => row.version));
+
+    for (const migration of migrations) {
+      if (appliedVersions.has(migration.version)) {
+        continue;
+      }
+
+      await client.query(migration.up(t));
+      await client.query(
+        `INSERT INTO ${t('schema_migrations')} (version, name) VALUES ($1, $2)`,
+        [migration.version, migration.name]
+      );
+
+      log.info('Migration applied', { version: migration.version, name: migration.name });
+      applied.push(migration.version);
+    }
+
+    await client.query('COMMIT');
+
+    if (applied.length === 0) {
+      log.debug('Schema is up to date');
+    }
+
+    return applied;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    log.error('Failed to run migrations', { err: error });
+    throw new Error('Failed to run database migrations');
+  } finally {
+    client.release();
+  }
+}